@@ -0,0 +1,292 @@
+// api/_lib/delivery.ts
+import { createHmac } from "node:crypto";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import axios from "axios";
+import type { PatientFormData } from "../../src/lib/schema.js";
+import type { DeliveryResult } from "../../src/lib/submitContract.js";
+import { toFhirIdentifier, toFhirPatient } from "./fhirPatient.js";
+
+// --- Delivery Adapters ---
+// Where a validated submission goes. DELIVERY_DESTINATIONS lists the active
+// destinations, comma-separated: "zapier" (the default), "webhook", "fhir"
+// and "file". All of them are sent the patient at once and each reports on
+// its own, so one failing destination doesn't hide how the others did.
+
+export interface DeliveryContext {
+    submissionId: string; // The request's Idempotency-Key, or a fresh UUID
+}
+
+// What a destination answered. Only the status goes back to the client; the
+// answer itself can hold file paths or other patients' IDs, so it's only logged.
+export interface DeliveryReceipt {
+    status?: number; // HTTP status, for destinations reached over HTTP
+    response: unknown;
+}
+
+export interface DeliveryAdapter {
+    name: string; // Reported as DeliveryResult.destination
+    /** Resolves with the destination's answer; rejects if it failed or refused */
+    deliver(
+        data: PatientFormData,
+        context: DeliveryContext
+    ): Promise<DeliveryReceipt>;
+}
+
+/** DELIVERY_DESTINATIONS names an unknown destination or one without its settings */
+export class DeliveryConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "DeliveryConfigError";
+    }
+}
+
+// Per destination, so a hanging one can't eat the function's whole time limit
+const DELIVERY_TIMEOUT_MS = 10000;
+
+/**
+ * Zapier catch hook, at ZAPIER_WEBHOOK_URL. Catch hooks answer
+ * { status: "success", ... }; any other 2xx answer without a status counts too.
+ */
+function createZapierAdapter(url: string): DeliveryAdapter {
+    return {
+        name: "zapier",
+        async deliver(data) {
+            const response = await axios.post(url, data, {
+                headers: { "Content-Type": "application/json" },
+                timeout: DELIVERY_TIMEOUT_MS,
+            });
+            const body: unknown = response.data;
+            if (
+                typeof body === "object" &&
+                body !== null &&
+                "status" in body &&
+                body.status !== "success"
+            ) {
+                throw new Error(
+                    `Zapier did not return success status: ${JSON.stringify(body)}`
+                );
+            }
+            return { status: response.status, response: body };
+        },
+    };
+}
+
+/**
+ * Any HTTPS endpoint, at WEBHOOK_URL. Requests are signed with WEBHOOK_SECRET:
+ * Webhook-Signature is "sha256=" + HMAC-SHA256 of "{Webhook-Timestamp}.{body}",
+ * so the receiver can check the sender and reject old replays.
+ */
+function createWebhookAdapter(url: string, secret: string): DeliveryAdapter {
+    return {
+        name: "webhook",
+        async deliver(data, { submissionId }) {
+            const body = JSON.stringify(data);
+            const timestamp = Math.floor(Date.now() / 1000).toString();
+            const signature = createHmac("sha256", secret)
+                .update(`${timestamp}.${body}`)
+                .digest("hex");
+            // The exact string that was signed, so axios mustn't re-serialize it
+            const response = await axios.post(url, body, {
+                headers: {
+                    "Content-Type": "application/json",
+                    "Idempotency-Key": submissionId,
+                    "Webhook-Timestamp": timestamp,
+                    "Webhook-Signature": `sha256=${signature}`,
+                },
+                timeout: DELIVERY_TIMEOUT_MS,
+            });
+            return { status: response.status, response: response.data };
+        },
+    };
+}
+
+/**
+ * FHIR R4 server, at FHIR_BASE_URL (with FHIR_AUTH_TOKEN as a bearer token if
+ * set). Uses conditional create, so a patient whose identifier the server
+ * already has isn't created twice.
+ */
+function createFhirAdapter(baseUrl: string, token?: string): DeliveryAdapter {
+    return {
+        name: "fhir",
+        async deliver(data) {
+            const { system, value } = toFhirIdentifier(data.identifier);
+            const response = await axios.post(
+                `${baseUrl.replace(/\/+$/, "")}/Patient`,
+                toFhirPatient(data),
+                {
+                    headers: {
+                        "Content-Type": "application/fhir+json",
+                        Accept: "application/fhir+json",
+                        "If-None-Exist": `identifier=${encodeURIComponent(
+                            `${system}|${value}`
+                        )}`,
+                        ...(token && { Authorization: `Bearer ${token}` }),
+                    },
+                    timeout: DELIVERY_TIMEOUT_MS,
+                }
+            );
+            // 201 when created, 200 when the patient already existed
+            return {
+                status: response.status,
+                response: {
+                    id: response.data?.id,
+                    location: response.headers.location,
+                },
+            };
+        },
+    };
+}
+
+/**
+ * One JSON file per submission in OUTBOX_DIR (default: a folder in the temp
+ * directory). For development, to see what would be sent without a real
+ * destination; serverless file systems are temporary.
+ */
+function createFileAdapter(directory: string): DeliveryAdapter {
+    return {
+        name: "file",
+        async deliver(data, { submissionId }) {
+            // The ID comes from a client header: keep it to a safe file name
+            const safeId = submissionId.replace(/[^\w-]/g, "_").slice(0, 100);
+            const filePath = path.join(directory, `${safeId}.json`);
+            const tempPath = `${filePath}.${process.pid}.tmp`;
+            await fs.mkdir(directory, { recursive: true });
+            await fs.writeFile(
+                tempPath,
+                JSON.stringify(
+                    {
+                        submissionId,
+                        receivedAt: new Date().toISOString(),
+                        data,
+                    },
+                    null,
+                    2
+                )
+            );
+            // A resend of the same submission replaces its file
+            await fs.rename(tempPath, filePath);
+            return { response: { file: filePath } };
+        },
+    };
+}
+
+// Unset or placeholder values count as missing
+function readSetting(env: NodeJS.ProcessEnv, name: string) {
+    const value = env[name]?.trim();
+    return value && !value.startsWith("YOUR_") ? value : undefined;
+}
+
+/**
+ * Builds the adapters named in DELIVERY_DESTINATIONS.
+ * @param env Where to read the settings; process.env by default.
+ * @returns The adapters, in the configured order.
+ * @throws {DeliveryConfigError} Throws listing every unknown or incomplete destination.
+ */
+export function getDeliveryAdapters(
+    env: NodeJS.ProcessEnv = process.env
+): DeliveryAdapter[] {
+    const names = [
+        ...new Set(
+            (env.DELIVERY_DESTINATIONS ?? "zapier")
+                .split(",")
+                .map((name) => name.trim().toLowerCase())
+                .filter(Boolean)
+        ),
+    ];
+    if (names.length === 0) {
+        throw new DeliveryConfigError("DELIVERY_DESTINATIONS is empty.");
+    }
+
+    const problems: string[] = [];
+    const missing = (setting: string) => {
+        problems.push(`${setting} is not set.`);
+        return [];
+    };
+
+    const adapters = names.flatMap((name): DeliveryAdapter[] => {
+        switch (name) {
+            case "zapier": {
+                const url = readSetting(env, "ZAPIER_WEBHOOK_URL");
+                return url
+                    ? [createZapierAdapter(url)]
+                    : missing("ZAPIER_WEBHOOK_URL");
+            }
+            case "webhook": {
+                const url = readSetting(env, "WEBHOOK_URL");
+                const secret = readSetting(env, "WEBHOOK_SECRET");
+                if (!url) return missing("WEBHOOK_URL");
+                if (!secret) return missing("WEBHOOK_SECRET");
+                return [createWebhookAdapter(url, secret)];
+            }
+            case "fhir": {
+                const baseUrl = readSetting(env, "FHIR_BASE_URL");
+                const token = readSetting(env, "FHIR_AUTH_TOKEN");
+                return baseUrl
+                    ? [createFhirAdapter(baseUrl, token)]
+                    : missing("FHIR_BASE_URL");
+            }
+            case "file":
+                if (env.NODE_ENV === "production") {
+                    console.warn(
+                        "The file destination is meant for development."
+                    );
+                }
+                return [
+                    createFileAdapter(
+                        readSetting(env, "OUTBOX_DIR") ??
+                            path.join(os.tmpdir(), "patient-form-outbox")
+                    ),
+                ];
+            default:
+                problems.push(`Unknown delivery destination "${name}".`);
+                return [];
+        }
+    });
+
+    if (problems.length > 0) {
+        throw new DeliveryConfigError(problems.join(" "));
+    }
+    return adapters;
+}
+
+/**
+ * Sends the patient to every adapter at once and waits for all of them.
+ * @param adapters The destinations.
+ * @param data The validated submission.
+ * @param context Passed to every adapter.
+ * @returns One result per adapter, in the same order; never rejects. The
+ *   destinations' answers and errors are logged, not returned.
+ */
+export async function deliverToAll(
+    adapters: DeliveryAdapter[],
+    data: PatientFormData,
+    context: DeliveryContext
+): Promise<DeliveryResult[]> {
+    const outcomes = await Promise.allSettled(
+        adapters.map((adapter) => adapter.deliver(data, context))
+    );
+    return outcomes.map((outcome, i) => {
+        const destination = adapters[i].name;
+        if (outcome.status === "fulfilled") {
+            const { status, response } = outcome.value;
+            console.log(`Delivered to ${destination}:`, response);
+            return { destination, success: true, status };
+        }
+        const error: unknown = outcome.reason;
+        console.error(
+            `Delivery to ${destination} failed:`,
+            axios.isAxiosError(error)
+                ? error.response?.data || error.message
+                : error
+        );
+        return {
+            destination,
+            success: false,
+            status: axios.isAxiosError(error)
+                ? error.response?.status
+                : undefined,
+        };
+    });
+}
@@ -0,0 +1,176 @@
+// api/_lib/fhirPatient.ts
+import type {
+    AddressData,
+    IdentifierData,
+    IdentifierType,
+    PatientFormData,
+    PhoneNumberData,
+} from "../../src/lib/schema.js";
+
+// --- FHIR R4 Patient Mapping ---
+// Turns a validated submission into a FHIR Patient resource for the "fhir"
+// destination (see delivery.ts). Only the handful of FHIR types it needs are
+// declared here.
+
+export interface FhirIdentifier {
+    system: string;
+    value: string;
+    assigner?: { display: string };
+}
+
+interface FhirHumanName {
+    use?: "official";
+    text?: string;
+    family?: string;
+    given?: string[];
+}
+
+interface FhirContactPoint {
+    system: "phone";
+    value: string;
+    use?: "home" | "work" | "mobile";
+    rank?: number; // 1 = preferred
+}
+
+interface FhirAddress {
+    use?: "home" | "work";
+    line: string[];
+    city: string;
+    postalCode?: string;
+    country: string;
+}
+
+interface FhirCodeableConcept {
+    coding?: { system: string; code: string }[];
+    text?: string;
+}
+
+export interface FhirPatient {
+    resourceType: "Patient";
+    identifier: FhirIdentifier[];
+    name: FhirHumanName[];
+    birthDate: string;
+    telecom: FhirContactPoint[];
+    address: FhirAddress[];
+    contact: {
+        relationship: FhirCodeableConcept[];
+        name: FhirHumanName;
+        telecom: FhirContactPoint[];
+    }[];
+    extension: { url: string; valueCodeableConcept: FhirCodeableConcept }[];
+}
+
+// The national ID system is IL Core's; the others are issued per organization,
+// so replace them with your own
+const IDENTIFIER_SYSTEMS: Record<IdentifierType, string> = {
+    IsraeliId: "http://fhir.health.gov.il/identifier/il-national-id",
+    Passport: "http://fhir.health.gov.il/identifier/passport-number",
+    ForeignResident: "urn:patient-form:identifier:foreign-resident",
+    Temporary: "urn:patient-form:identifier:temporary",
+};
+const HMO_EXTENSION_URL =
+    "http://fhir.health.gov.il/StructureDefinition/ext-il-hmo";
+// HL7 v2 table 0131 (contact role): next of kin, emergency contact
+const CONTACT_ROLE_SYSTEM = "http://terminology.hl7.org/CodeSystem/v2-0131";
+
+const PHONE_USE: Partial<
+    Record<PhoneNumberData["type"], FhirContactPoint["use"]>
+> = {
+    Home: "home",
+    Work: "work",
+    Mobile: "mobile",
+};
+
+const ADDRESS_USE: Partial<
+    Record<AddressData["addressType"], FhirAddress["use"]>
+> = {
+    Home: "home",
+    Work: "work",
+};
+
+/** The identifier the form collected, in FHIR form; also used for conditional create */
+export function toFhirIdentifier(identifier: IdentifierData): FhirIdentifier {
+    return {
+        system: IDENTIFIER_SYSTEMS[identifier.type],
+        value: identifier.value,
+        ...(identifier.type === "Passport" && {
+            assigner: { display: identifier.issuingCountry },
+        }),
+    };
+}
+
+function toFhirAddress(address: AddressData): FhirAddress {
+    const line =
+        address.addressMode === "street"
+            ? [
+                  `${address.streetName} ${address.streetNumber}`,
+                  [
+                      address.entrance && `Entrance ${address.entrance}`,
+                      address.floor && `Floor ${address.floor}`,
+                      address.apartment && `Apartment ${address.apartment}`,
+                  ]
+                      .filter(Boolean)
+                      .join(", "),
+              ]
+            : [address.addressLine, address.poBox && `PO Box ${address.poBox}`];
+    // Comments are for the front desk, not the patient record
+    return {
+        use: ADDRESS_USE[address.addressType],
+        line: line.filter((part): part is string => Boolean(part)),
+        city: address.cityName,
+        postalCode: address.postalCode || undefined,
+        country: "IL",
+    };
+}
+
+const contactRole = (code: "N" | "C", text: string): FhirCodeableConcept[] => [
+    { coding: [{ system: CONTACT_ROLE_SYSTEM, code }], text },
+];
+
+/**
+ * Maps a validated submission to a FHIR R4 Patient.
+ * @param data Output of patientSchema (phones already in E.164 form).
+ * @returns The Patient resource, without an id (the server assigns one).
+ */
+export function toFhirPatient(data: PatientFormData): FhirPatient {
+    const contacts: FhirPatient["contact"] = data.emergencyContacts.map(
+        (contact) => ({
+            relationship: contactRole("C", contact.relationship),
+            name: { text: contact.name },
+            telecom: [{ system: "phone", value: contact.phone.number }],
+        })
+    );
+    if (data.guardian) {
+        contacts.unshift({
+            relationship: contactRole("N", data.guardian.relationship),
+            name: {
+                family: data.guardian.lastName,
+                given: [data.guardian.firstName],
+            },
+            telecom: [{ system: "phone", value: data.guardian.phone.number }],
+        });
+    }
+
+    return {
+        resourceType: "Patient",
+        identifier: [toFhirIdentifier(data.identifier)],
+        name: [
+            { use: "official", family: data.lastName, given: [data.firstName] },
+        ],
+        birthDate: data.dateOfBirth,
+        telecom: data.phoneNumbers.map((phone) => ({
+            system: "phone",
+            value: phone.number,
+            use: PHONE_USE[phone.type],
+            rank: phone.isMain ? 1 : undefined,
+        })),
+        address: data.addresses.map(toFhirAddress),
+        contact: contacts,
+        extension: [
+            {
+                url: HMO_EXTENSION_URL,
+                valueCodeableConcept: { text: data.hmo },
+            },
+        ],
+    };
+}
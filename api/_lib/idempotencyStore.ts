@@ -0,0 +1,181 @@
+// api/_lib/idempotencyStore.ts
+// (Files under api/_lib are shared code, not serverless functions of their own.)
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { SubmitResponseBody } from "../../src/lib/submitContract.js";
+
+// --- Idempotency Store ---
+// Remembers what the submit function did for each Idempotency-Key, so a
+// repeated request (double click, retry after a timeout) gets the original
+// answer instead of sending the patient again. Pick the backend with
+// IDEMPOTENCY_STORE ("memory", "file"); anything with claim/set/delete fits,
+// e.g. Redis (SET NX) when running on more than one instance.
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+// A pending record outlives a crashed invocation by this much at most, then retries may go ahead
+export const PENDING_TTL_MS = 60 * 1000;
+
+export type IdempotencyRecord =
+    | {
+          // "pending": being delivered right now. "failed": some destinations
+          // failed; a retry of the same payload takes over and skips `delivered`.
+          status: "pending" | "failed";
+          payloadHash: string;
+          delivered: string[]; // Destinations that already have the submission
+          expiresAt: number; // Epoch ms
+      }
+    | {
+          status: "completed";
+          payloadHash: string;
+          statusCode: number;
+          body: SubmitResponseBody;
+          expiresAt: number;
+      };
+
+export interface IdempotencyStore {
+    /**
+     * Stores `record` unless the key has a live record in the way (see
+     * canTakeOver), atomically, so two concurrent requests can't both go ahead.
+     * @returns The live record found, whether it was in the way or taken over.
+     */
+    claim(
+        key: string,
+        record: IdempotencyRecord
+    ): Promise<IdempotencyRecord | undefined>;
+    set(key: string, record: IdempotencyRecord): Promise<void>;
+    delete(key: string): Promise<void>;
+}
+
+const isLive = (record: IdempotencyRecord) => record.expiresAt > Date.now();
+
+/** Only a failed attempt at the same payload may be retried under its key */
+export const canTakeOver = (
+    existing: IdempotencyRecord,
+    record: IdempotencyRecord
+) =>
+    existing.status === "failed" &&
+    existing.payloadHash === record.payloadHash;
+
+/** Per instance and lost on restart; fine for one long-lived server or local dev */
+export function createMemoryIdempotencyStore(): IdempotencyStore {
+    const records = new Map<string, IdempotencyRecord>();
+
+    const prune = () => {
+        for (const [key, record] of records) {
+            if (!isLive(record)) records.delete(key);
+        }
+    };
+
+    return {
+        async claim(key, record) {
+            prune();
+            const existing = records.get(key);
+            if (!existing || canTakeOver(existing, record)) {
+                records.set(key, record);
+            }
+            return existing;
+        },
+        async set(key, record) {
+            prune();
+            records.set(key, record);
+        },
+        async delete(key) {
+            records.delete(key);
+        },
+    };
+}
+
+/**
+ * Keeps records in a JSON file, so they survive restarts of a local server.
+ * Writes go to a temp file that is renamed over the old one, so a crash never
+ * leaves half a file; calls are queued so writes from one process don't interleave.
+ * @param filePath Where to keep the records.
+ */
+export function createFileIdempotencyStore(filePath: string): IdempotencyStore {
+    let queue: Promise<unknown> = Promise.resolve();
+
+    // Runs `task` after every earlier call has finished, even failed ones
+    const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+        const next = queue.then(task, task);
+        queue = next.catch(() => {});
+        return next;
+    };
+
+    const readAll = async (): Promise<Record<string, IdempotencyRecord>> => {
+        try {
+            return JSON.parse(await fs.readFile(filePath, "utf8"));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+                return {};
+            }
+            throw error;
+        }
+    };
+
+    const writeAll = async (records: Record<string, IdempotencyRecord>) => {
+        const live = Object.fromEntries(
+            Object.entries(records).filter(([, record]) => isLive(record))
+        );
+        const tempPath = `${filePath}.${process.pid}.tmp`;
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(tempPath, JSON.stringify(live));
+        await fs.rename(tempPath, filePath);
+    };
+
+    return {
+        claim: (key, record) =>
+            enqueue(async () => {
+                const records = await readAll();
+                const found = records[key];
+                const existing = found && isLive(found) ? found : undefined;
+                if (!existing || canTakeOver(existing, record)) {
+                    records[key] = record;
+                    await writeAll(records);
+                }
+                return existing;
+            }),
+        set: (key, record) =>
+            enqueue(async () => {
+                const records = await readAll();
+                records[key] = record;
+                await writeAll(records);
+            }),
+        delete: (key) =>
+            enqueue(async () => {
+                const records = await readAll();
+                delete records[key];
+                await writeAll(records);
+            }),
+    };
+}
+
+/**
+ * Picks the store named by IDEMPOTENCY_STORE, defaulting to "memory".
+ * The file store uses IDEMPOTENCY_STORE_FILE, or a file in the temp directory.
+ */
+export function createIdempotencyStore(): IdempotencyStore {
+    const configured = process.env.IDEMPOTENCY_STORE ?? "memory";
+    switch (configured) {
+        case "file":
+            return createFileIdempotencyStore(
+                process.env.IDEMPOTENCY_STORE_FILE ||
+                    path.join(os.tmpdir(), "patient-form-idempotency.json")
+            );
+        case "memory":
+            return createMemoryIdempotencyStore();
+        default:
+            console.warn(
+                `Unknown IDEMPOTENCY_STORE "${configured}", using "memory".`
+            );
+            return createMemoryIdempotencyStore();
+    }
+}
+
+/** How long records are kept, from IDEMPOTENCY_TTL_MS (default 24 hours) */
+export function getIdempotencyTtlMs(): number {
+    const configured = Number(process.env.IDEMPOTENCY_TTL_MS);
+    return Number.isFinite(configured) && configured > 0
+        ? configured
+        : DEFAULT_TTL_MS;
+}
@@ -0,0 +1,256 @@
+// api/submit-zapier.ts
+// (Named for its first destination; where submissions go is set in _lib/delivery.ts.)
+// Runs as Node ESM ("type": "module"), so relative imports end in .js.
+import { createHash, randomUUID } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { ZodIssue } from "zod";
+// Shared with the form, so the server enforces exactly the rules the client shows
+import { patientSchema } from "../src/lib/schema.js";
+import {
+    patientErrorMap,
+    translateErrorMessage,
+} from "../src/lib/errorMessages.js";
+import type {
+    DeliveryResult,
+    SubmitErrorCode,
+    SubmitFieldError,
+    SubmitResponseBody,
+} from "../src/lib/submitContract.js";
+import {
+    deliverToAll,
+    getDeliveryAdapters,
+    type DeliveryAdapter,
+} from "./_lib/delivery.js";
+import {
+    canTakeOver,
+    createIdempotencyStore,
+    getIdempotencyTtlMs,
+    PENDING_TTL_MS,
+    type IdempotencyRecord,
+} from "./_lib/idempotencyStore.js";
+
+// Node's request/response plus the helpers Vercel's Node.js runtime adds
+type FunctionRequest = IncomingMessage & { body: unknown };
+type FunctionResponse = ServerResponse & {
+    status(statusCode: number): FunctionResponse;
+    json(body: unknown): FunctionResponse;
+};
+
+// Module scope, so warm invocations of this instance share it
+const idempotencyStore = createIdempotencyStore();
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+// Tells a replay from the same data: the validated payload, so key order and
+// stripped extras don't matter
+function hashPayload(data: unknown): string {
+    return createHash("sha256").update(JSON.stringify(data)).digest("hex");
+}
+
+// The deliveries already happened, so a store failure must not turn the answer into an error
+async function remember(key: string, record: IdempotencyRecord) {
+    try {
+        await idempotencyStore.set(key, record);
+    } catch (error) {
+        console.error("Failed to store Idempotency-Key result:", error);
+    }
+}
+
+// English for logs and API users, plus the message ID for the form to translate
+function toFieldError(issue: ZodIssue): SubmitFieldError {
+    return {
+        path: issue.path.join("."),
+        message: translateErrorMessage(issue.message, "en"),
+        messageId: issue.message,
+    };
+}
+
+// Every response goes through here, so it always matches the shared contract
+function send(
+    response: FunctionResponse,
+    statusCode: number,
+    body: SubmitResponseBody
+) {
+    return response.status(statusCode).json(body);
+}
+
+function sendError(
+    response: FunctionResponse,
+    statusCode: number,
+    code: SubmitErrorCode,
+    message: string,
+    fieldErrors?: SubmitFieldError[]
+) {
+    return send(response, statusCode, {
+        success: false,
+        code,
+        message,
+        fieldErrors,
+    });
+}
+
+// Vercel's handler signature (request, response)
+export default async function handler(
+    request: FunctionRequest,
+    response: FunctionResponse
+) {
+    // 1. Only allow POST requests
+    if (request.method !== "POST") {
+        response.setHeader("Allow", ["POST"]);
+        return sendError(
+            response,
+            405,
+            "METHOD_NOT_ALLOWED",
+            `Method ${request.method} Not Allowed`
+        );
+    }
+
+    // 2. Find the destinations in SERVER-SIDE Environment Variables
+    //    (You'll set these up in Vercel's dashboard, NOT your .env file)
+    let adapters: DeliveryAdapter[];
+    try {
+        adapters = getDeliveryAdapters();
+    } catch (error) {
+        console.error("Delivery destinations are misconfigured:", error);
+        return sendError(
+            response,
+            500,
+            "SERVER_MISCONFIGURED",
+            "Server configuration error."
+        );
+    }
+
+    // 3. Validate the body with the form's own schema. Never trust the client:
+    //    anyone can post to this URL. Parsing also drops keys the schema doesn't know.
+    const parsed = patientSchema.safeParse(request.body, {
+        errorMap: patientErrorMap,
+    });
+    if (!parsed.success) {
+        const fieldErrors = parsed.error.issues.map(toFieldError);
+        console.warn("Rejected invalid patient data:", fieldErrors);
+        return sendError(
+            response,
+            400,
+            "VALIDATION_FAILED",
+            "Some fields are invalid.",
+            fieldErrors
+        );
+    }
+    const patientData = parsed.data;
+
+    // 4. Idempotency: a request that repeats a key gets the first answer
+    //    instead of a second delivery. Requests without a key aren't deduplicated.
+    const idempotencyKey = request.headers["idempotency-key"];
+    if (Array.isArray(idempotencyKey)) {
+        return sendError(
+            response,
+            400,
+            "VALIDATION_FAILED",
+            "Send a single Idempotency-Key header."
+        );
+    }
+    const payloadHash = hashPayload(patientData);
+    let alreadyDelivered: string[] = [];
+    if (idempotencyKey !== undefined) {
+        if (
+            idempotencyKey.length === 0 ||
+            idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH
+        ) {
+            return sendError(
+                response,
+                400,
+                "VALIDATION_FAILED",
+                `Idempotency-Key must be 1-${MAX_IDEMPOTENCY_KEY_LENGTH} characters.`
+            );
+        }
+        const claim: IdempotencyRecord = {
+            status: "pending",
+            payloadHash,
+            delivered: [],
+            expiresAt: Date.now() + PENDING_TTL_MS,
+        };
+        const existing = await idempotencyStore.claim(idempotencyKey, claim);
+        if (existing && canTakeOver(existing, claim)) {
+            // A retry after a partial failure: only the failed destinations again
+            alreadyDelivered =
+                existing.status === "failed" ? existing.delivered : [];
+        } else if (existing) {
+            if (existing.payloadHash !== payloadHash) {
+                return sendError(
+                    response,
+                    422,
+                    "IDEMPOTENCY_KEY_REUSED",
+                    "This Idempotency-Key was already used for different data."
+                );
+            }
+            if (existing.status !== "completed") {
+                response.setHeader("Retry-After", "1");
+                return sendError(
+                    response,
+                    409,
+                    "REQUEST_IN_PROGRESS",
+                    "This submission is still being processed."
+                );
+            }
+            console.log(
+                `Replaying result for Idempotency-Key ${idempotencyKey}`
+            );
+            response.setHeader("Idempotent-Replayed", "true");
+            return send(response, existing.statusCode, existing.body);
+        }
+    }
+
+    // 5. Send the patient FROM THE SERVER to every destination at once
+    const results = await deliverToAll(
+        adapters.filter((adapter) => !alreadyDelivered.includes(adapter.name)),
+        patientData,
+        { submissionId: idempotencyKey ?? randomUUID() }
+    );
+    const deliveries = adapters.map(
+        ({ name }): DeliveryResult =>
+            // Not in results: delivered by an earlier attempt
+            results.find((result) => result.destination === name) ?? {
+                destination: name,
+                success: true,
+            }
+    );
+    console.log("Delivery results:", deliveries);
+
+    // 6. Report per destination; the key remembers which ones are done
+    const failed = deliveries.filter((delivery) => !delivery.success);
+    const expiresAt = Date.now() + getIdempotencyTtlMs();
+    if (failed.length === 0) {
+        const body: SubmitResponseBody = { success: true, deliveries };
+        if (idempotencyKey !== undefined) {
+            await remember(idempotencyKey, {
+                status: "completed",
+                payloadHash,
+                statusCode: 200,
+                body,
+                expiresAt,
+            });
+        }
+        // Send success back to the frontend
+        return send(response, 200, body);
+    }
+
+    if (idempotencyKey !== undefined) {
+        await remember(idempotencyKey, {
+            status: "failed",
+            payloadHash,
+            delivered: deliveries
+                .filter((delivery) => delivery.success)
+                .map((delivery) => delivery.destination),
+            expiresAt,
+        });
+    }
+    // Send error back to the frontend
+    return send(response, 502, {
+        success: false,
+        code: "DELIVERY_FAILED",
+        message: `Failed to deliver to: ${failed
+            .map((delivery) => delivery.destination)
+            .join(", ")}.`,
+        deliveries,
+    });
+}
@@ -0,0 +1,130 @@
+// scripts/build-geo-snapshot.mjs
+// Downloads the full cities and streets resources from data.gov.il and writes
+// the compact snapshot the form searches offline (see src/lib/geoSnapshot.ts).
+//
+// Usage: npm run geo:snapshot   (re-run whenever the registry should be refreshed)
+// `npm run build` runs it first with --optional: if data.gov.il can't be
+// reached, the build goes on with the previous snapshot (or none, in which
+// case the form looks everything up on data.gov.il; see geoProvider.ts).
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+const API_URL =
+    process.env.VITE_CITIES_API_URL ||
+    "https://data.gov.il/api/3/action/datastore_search";
+const CITIES_RESOURCE_ID =
+    process.env.VITE_CITIES_RESOURCE_ID ||
+    "5c78e9fa-c2e2-4771-93ff-7f400a12f7ba";
+const STREETS_RESOURCE_ID =
+    process.env.VITE_STREETS_RESOURCE_ID ||
+    "9ad3862c-8391-4b2f-84a4-2d4c68625f4b";
+const OUTPUT_FILE = path.resolve("public", "geo-snapshot.json");
+
+const PAGE_SIZE = 10000;
+const SNAPSHOT_VERSION = 1;
+// Per request, so a registry that stops answering can't hang the build
+const FETCH_TIMEOUT_MS = 60 * 1000;
+const OPTIONAL = process.argv.includes("--optional");
+
+// Fetches every record of a datastore resource, page by page
+async function fetchAllRecords(resourceId) {
+    const records = [];
+    let total = Infinity;
+    while (records.length < total) {
+        const url = new URL(API_URL);
+        url.searchParams.set("resource_id", resourceId);
+        url.searchParams.set("limit", String(PAGE_SIZE));
+        url.searchParams.set("offset", String(records.length));
+
+        const response = await fetch(url, {
+            signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        });
+        if (!response.ok) {
+            throw new Error(
+                `data.gov.il responded ${response.status} for ${resourceId}`
+            );
+        }
+        const body = await response.json();
+        if (!body.success) {
+            throw new Error(`data.gov.il returned success: false for ${resourceId}`);
+        }
+
+        total = body.result.total;
+        if (body.result.records.length === 0) {
+            break; // Registry shrank while paging; keep what we have
+        }
+        records.push(...body.result.records);
+        console.log(`  ${resourceId}: ${records.length}/${total}`);
+    }
+    return records;
+}
+
+// The registry pads many names with spaces
+const clean = (value) => String(value ?? "").trim();
+
+async function main() {
+    console.log("Fetching cities...");
+    const cityRecords = await fetchAllRecords(CITIES_RESOURCE_ID);
+    console.log("Fetching streets...");
+    const streetRecords = await fetchAllRecords(STREETS_RESOURCE_ID);
+
+    // [ _id, סמל_ישוב, שם_ישוב, שם_ישוב_לועזי? ], sorted by name so the index can be scanned in order
+    const seenCities = new Set();
+    const cities = [];
+    for (const record of cityRecords) {
+        const code = clean(record["סמל_ישוב"]);
+        const name = clean(record["שם_ישוב"]);
+        const englishName = clean(record["שם_ישוב_לועזי"]);
+        if (!code || !name || seenCities.has(code)) continue;
+        seenCities.add(code);
+        cities.push(
+            englishName
+                ? [record._id, code, name, englishName]
+                : [record._id, code, name]
+        );
+    }
+    cities.sort((a, b) => a[2].localeCompare(b[2], "he"));
+
+    // { סמל_ישוב: [ [ _id, סמל_רחוב, שם_רחוב ], ... ] }
+    const streets = {};
+    let streetCount = 0;
+    for (const record of streetRecords) {
+        const cityCode = clean(record["סמל_ישוב"]);
+        const code = clean(record["סמל_רחוב"]);
+        const name = clean(record["שם_רחוב"]);
+        if (!cityCode || !code || !name) continue;
+        (streets[cityCode] ??= []).push([record._id, code, name]);
+        streetCount++;
+    }
+    for (const list of Object.values(streets)) {
+        list.sort((a, b) => a[2].localeCompare(b[2], "he"));
+    }
+
+    const snapshot = {
+        version: SNAPSHOT_VERSION,
+        generatedAt: new Date().toISOString(),
+        cities,
+        streets,
+    };
+
+    // Written aside and renamed, so a failed run never leaves half a file
+    const tempFile = `${OUTPUT_FILE}.${process.pid}.tmp`;
+    await mkdir(path.dirname(OUTPUT_FILE), { recursive: true });
+    await writeFile(tempFile, JSON.stringify(snapshot));
+    await rename(tempFile, OUTPUT_FILE);
+    console.log(
+        `Wrote ${cities.length} cities and ${streetCount} streets to ${OUTPUT_FILE}`
+    );
+}
+
+main().catch((error) => {
+    if (OPTIONAL) {
+        console.warn(
+            "Could not refresh the geography snapshot; keeping the previous one:",
+            error
+        );
+        return;
+    }
+    console.error("Failed to build the geography snapshot:", error);
+    process.exit(1);
+});
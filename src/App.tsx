@@ -2,20 +2,43 @@
 import "./index.css"; // Ensure global styles are imported
 import { PatientForm } from "./components/patient-form/PatientForm"; // Will be created next
 import { Toaster } from "@/components/ui/sonner";
+import { LanguageProvider } from "@/components/language-provider";
+import { LanguageSwitcher } from "@/components/language-switcher";
+import { ClearCacheButton } from "@/components/clear-cache-button";
+import { ConnectionStatus } from "@/components/connection-status";
+import { OutboxButton } from "@/components/outbox-button";
+import useTranslation from "@/lib/utils/UseTranslation";
 // If you set up theming
 
-function App() {
+// Everything below the provider, so it can read the active language
+function AppContent() {
+    const { t, dir } = useTranslation();
+
     return (
         <div className="container mx-auto p-4 bg-background text-foreground min-h-screen">
             {" "}
             {/* Add basic layout */}
+            <div className="flex justify-end items-center gap-2 mb-2">
+                <ConnectionStatus />
+                <OutboxButton />
+                <ClearCacheButton />
+                <LanguageSwitcher />
+            </div>
             <h1 className="text-3xl font-bold mb-6 text-center">
-                New Patient Registration
+                {t("app.title")}
             </h1>
             <PatientForm />
-            <Toaster />
+            <Toaster dir={dir} />
         </div>
     );
 }
 
+function App() {
+    return (
+        <LanguageProvider>
+            <AppContent />
+        </LanguageProvider>
+    );
+}
+
 export default App;
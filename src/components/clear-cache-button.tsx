@@ -0,0 +1,40 @@
+import { toast } from "sonner"
+import useClearLookupCache from "@/lib/utils/UseClearLookupCache"
+import useTranslation from "@/lib/utils/UseTranslation"
+import { Button } from "@/components/ui/button"
+import { Loader2, RefreshCw } from "lucide-react"
+
+/**
+ * Staff button that empties the cached city/street lookups.
+ */
+export function ClearCacheButton() {
+  const { clearCache, isClearing } = useClearLookupCache()
+  const { t } = useTranslation()
+
+  const handleClick = async () => {
+    try {
+      await clearCache()
+      toast.success(t("cache.cleared"))
+    } catch (error: unknown) {
+      console.error("Failed to clear lookup cache:", error)
+      toast.error(t("cache.clearFailed"))
+    }
+  }
+
+  return (
+    <Button
+      type="button"
+      variant="ghost"
+      size="sm"
+      onClick={handleClick}
+      disabled={isClearing}
+    >
+      {isClearing ? (
+        <Loader2 className="h-4 w-4 animate-spin" />
+      ) : (
+        <RefreshCw className="h-4 w-4" />
+      )}
+      {t("cache.clear")}
+    </Button>
+  )
+}
@@ -0,0 +1,32 @@
+import useApiCircuitState from "@/lib/utils/UseApiCircuitState"
+import useTranslation from "@/lib/utils/UseTranslation"
+import { cn } from "@/lib/utils"
+
+/**
+ * Small dot showing whether the address registry is reachable; the label is
+ * only spelled out while something is wrong.
+ */
+export function ConnectionStatus() {
+  const state = useApiCircuitState()
+  const { t } = useTranslation()
+  const label = t(`connection.${state}`)
+
+  return (
+    <div
+      role="status"
+      title={label}
+      className="flex items-center gap-2 text-sm text-muted-foreground"
+    >
+      <span
+        aria-hidden="true"
+        className={cn(
+          "h-2 w-2 rounded-full",
+          state === "closed" && "bg-green-500",
+          state === "half-open" && "bg-amber-500",
+          state === "open" && "bg-destructive"
+        )}
+      />
+      <span className={cn(state === "closed" && "sr-only")}>{label}</span>
+    </div>
+  )
+}
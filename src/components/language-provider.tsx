@@ -0,0 +1,46 @@
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import { DirectionProvider } from "@radix-ui/react-direction";
+import {
+    LANGUAGE_STORAGE_KEY,
+    detectInitialLanguage,
+    getLanguageDirection,
+    type Language,
+} from "@/lib/i18n";
+import { LanguageContext } from "@/lib/languageContext";
+
+interface LanguageProviderProps {
+    children: ReactNode;
+}
+
+/**
+ * Holds the active UI language for the app and remembers the choice on this device.
+ * Also sets the page's lang/dir and tells Radix primitives (Select, Popover, ...)
+ * which direction to lay out in, so Hebrew and Arabic render right-to-left.
+ */
+export function LanguageProvider({ children }: LanguageProviderProps) {
+    const [language, setLanguage] = useState<Language>(detectInitialLanguage);
+
+    useEffect(() => {
+        try {
+            localStorage.setItem(LANGUAGE_STORAGE_KEY, language);
+        } catch {
+            // Not being able to remember the choice is harmless
+        }
+    }, [language]);
+
+    const dir = getLanguageDirection(language);
+
+    // Keep <html lang dir> in sync so the browser, fonts and portals follow along
+    useEffect(() => {
+        document.documentElement.lang = language;
+        document.documentElement.dir = dir;
+    }, [language, dir]);
+
+    const value = useMemo(() => ({ language, setLanguage }), [language]);
+
+    return (
+        <LanguageContext.Provider value={value}>
+            <DirectionProvider dir={dir}>{children}</DirectionProvider>
+        </LanguageContext.Provider>
+    );
+}
@@ -0,0 +1,43 @@
+import { LANGUAGES, isLanguage } from "@/lib/i18n"
+import useLanguage from "@/lib/utils/UseLanguage"
+import useTranslation from "@/lib/utils/UseTranslation"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Languages } from "lucide-react"
+
+/**
+ * Dropdown for the UI language. Changing it mid-form keeps the entered values
+ * and re-renders any validation errors in the new language.
+ */
+export function LanguageSwitcher() {
+  const { language, setLanguage } = useLanguage()
+  const { t } = useTranslation()
+
+  return (
+    <Select
+      value={language}
+      onValueChange={(value) => {
+        if (isLanguage(value)) {
+          setLanguage(value)
+        }
+      }}
+    >
+      <SelectTrigger size="sm" aria-label={t("app.language")}>
+        <Languages className="h-4 w-4" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {LANGUAGES.map((option) => (
+          <SelectItem key={option.code} value={option.code} lang={option.code}>
+            {option.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
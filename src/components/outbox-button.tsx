@@ -0,0 +1,185 @@
+import * as React from "react"
+import { toast } from "sonner"
+import { Inbox, Loader2, RotateCw, Trash2 } from "lucide-react"
+
+import { translateErrorMessage } from "@/lib/errorMessages"
+import type { OutboxItem } from "@/lib/outbox"
+import useSubmissionOutbox from "@/lib/utils/UseSubmissionOutbox"
+import useTranslation from "@/lib/utils/UseTranslation"
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+
+const patientName = (item: OutboxItem) =>
+  item.data ? `${item.data.firstName} ${item.data.lastName}` : null
+
+/**
+ * Badge with the number of submissions waiting in the outbox; opens a list
+ * where staff can check, resend or discard them. Hidden while the outbox is empty.
+ */
+export function OutboxButton() {
+  const { t, language } = useTranslation()
+  const [open, setOpen] = React.useState(false)
+  const [busyId, setBusyId] = React.useState<string | null>(null)
+  const [confirmingId, setConfirmingId] = React.useState<string | null>(null)
+  const { count, items, retry, discard } = useSubmissionOutbox({
+    listItems: open,
+    onDelivered: (item) =>
+      toast.success(t("outbox.delivered"), {
+        description: patientName(item) ?? undefined,
+      }),
+  })
+
+  const formatTime = (time: number) =>
+    new Date(time).toLocaleString(language, {
+      dateStyle: "short",
+      timeStyle: "short",
+    })
+
+  const handleRetry = async (item: OutboxItem) => {
+    setBusyId(item.id)
+    try {
+      // Success is announced by onDelivered
+      if (!(await retry(item.id))) {
+        toast.error(t("outbox.retryFailed"))
+      }
+    } catch (error: unknown) {
+      console.error("Outbox retry failed:", error)
+      toast.error(t("outbox.retryFailed"))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDiscard = async (item: OutboxItem) => {
+    // First click asks, second click discards
+    if (confirmingId !== item.id) {
+      setConfirmingId(item.id)
+      return
+    }
+    setConfirmingId(null)
+    try {
+      await discard(item.id)
+    } catch (error: unknown) {
+      console.error("Outbox discard failed:", error)
+      toast.error(t("outbox.discardFailed"))
+    }
+  }
+
+  if (count === 0 && !open) {
+    return null
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          aria-label={t("outbox.pending", { count })}
+        >
+          <Inbox className="h-4 w-4" />
+          {t("outbox.button")}
+          <span className="rounded-full bg-destructive px-1.5 text-xs text-white">
+            {count}
+          </span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("outbox.title")}</DialogTitle>
+          <DialogDescription>{t("outbox.description")}</DialogDescription>
+        </DialogHeader>
+        {items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("outbox.empty")}</p>
+        ) : (
+          <ul className="space-y-3">
+            {items.map((item) => (
+              <li key={item.id} className="space-y-2 rounded-md border p-3">
+                <div className="font-medium">
+                  {patientName(item) ?? t("outbox.unreadable")}
+                  {item.data && (
+                    <span className="ms-2 text-sm text-muted-foreground">
+                      {item.data.identifier.value}
+                    </span>
+                  )}
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  {t("outbox.savedAt", { time: formatTime(item.createdAt) })}
+                  {" · "}
+                  {t("outbox.attempts", { count: item.attempts })}
+                </div>
+                <div
+                  className={cn(
+                    "text-sm",
+                    item.nextAttemptAt === null
+                      ? "text-destructive"
+                      : "text-muted-foreground"
+                  )}
+                >
+                  {item.nextAttemptAt === null
+                    ? t(item.failed ? "outbox.failed" : "outbox.stopped")
+                    : t("outbox.nextAttempt", {
+                        time: formatTime(item.nextAttemptAt),
+                      })}
+                  {": "}
+                  {translateErrorMessage(item.lastError.message, language)}
+                </div>
+                {item.data && (
+                  <details className="text-sm">
+                    <summary className="cursor-pointer">
+                      {t("outbox.showData")}
+                    </summary>
+                    <pre
+                      dir="ltr"
+                      className="mt-2 max-h-48 overflow-auto rounded bg-muted p-2 text-xs"
+                    >
+                      {JSON.stringify(item.data, null, 2)}
+                    </pre>
+                  </details>
+                )}
+                <div className="flex justify-end gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRetry(item)}
+                    disabled={!item.data || busyId === item.id}
+                  >
+                    {busyId === item.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <RotateCw className="h-4 w-4" />
+                    )}
+                    {t("outbox.retry")}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant={confirmingId === item.id ? "destructive" : "ghost"}
+                    size="sm"
+                    onClick={() => handleDiscard(item)}
+                    onBlur={() => setConfirmingId(null)}
+                    disabled={busyId === item.id}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    {confirmingId === item.id
+                      ? t("outbox.confirmDiscard")
+                      : t("outbox.discard")}
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -5,27 +5,24 @@ interface AddressFieldsProps {
     // The 'field' object from useFieldArray map contains the unique id ('rhfId' in this case)
     field: FieldArrayWithId<PatientFormData, "addresses", "rhfId">;
     removeAddressRow: (index: number) => void;
-
-    // Props for SHARED City search state/handlers (managed in PatientForm)
-    cities: ApiCity[];
-    cityLoading: boolean;
-    cityQuery: string;
-    isCityPopoverOpen: boolean;
-    handleCityInputChange: (query: string) => void;
-    setIsCityPopoverOpen: (isOpen: boolean) => void; // Allow child to toggle shared popover
 }
 
 // src/components/PatientForm/AddressFields.tsx
 
-import { useState, useEffect } from "react";
+import { useEffect, useRef, useState } from "react";
 import { UseFormReturn, FieldArrayWithId } from "react-hook-form";
 import { toast } from "sonner"; // Use sonner
-import useDebounce from "@/lib/utils/UseDebounce"; // Assuming path
-import { fetchStreets } from "@/lib/api"; // Fetch function
-import { PatientFormData, ApiCity, ApiStreet } from "@/lib/schema"; // Types
-import { cn } from "@/lib/utils";
+import { geoProvider } from "@/lib/geoProvider"; // City/street lookups
+import {
+    PatientFormData,
+    AddressMode,
+    addressTypeEnum,
+} from "@/lib/schema"; // Types
+import useTranslation from "@/lib/utils/UseTranslation";
+import { CityCombobox, type CityOption } from "./CityCombobox";
+import { StreetCombobox } from "./StreetCombobox";
 
-// UI Components (import all needed ones: Button, FormField, Input, Popover, Command, etc.)
+// UI Components (import all needed ones: Button, FormField, Input, Select, etc.)
 import { Button } from "@/components/ui/button";
 import {
     FormControl,
@@ -35,6 +32,8 @@ import {
     FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
     Select,
     SelectContent,
@@ -42,25 +41,8 @@ import {
     SelectTrigger,
     SelectValue,
 } from "@/components/ui/select";
-import {
-    Popover,
-    PopoverContent,
-    PopoverTrigger,
-} from "@/components/ui/popover";
-import {
-    Command,
-    CommandEmpty,
-    CommandGroup,
-    CommandInput,
-    CommandItem,
-    CommandList,
-} from "@/components/ui/command";
 import { Textarea } from "@/components/ui/textarea";
-import { Check, ChevronsUpDown, Trash2, Loader2 } from "lucide-react";
-
-// Constants can be defined here or imported
-const DEBOUNCE_DELAY = 350;
-const MIN_QUERY_LENGTH = 2;
+import { Trash2, Loader2 } from "lucide-react";
 
 // Props Interface defined above
 interface AddressFieldsProps {
@@ -68,12 +50,6 @@ interface AddressFieldsProps {
     index: number;
     field: FieldArrayWithId<PatientFormData, "addresses", "rhfId">; // Use field.rhfId for key
     removeAddressRow: (index: number) => void;
-    cities: ApiCity[];
-    cityLoading: boolean;
-    cityQuery: string;
-    isCityPopoverOpen: boolean; // Shared city popover state
-    handleCityInputChange: (query: string) => void;
-    setIsCityPopoverOpen: (isOpen: boolean) => void; // To control the shared popover
     isOnlyAddress: boolean;
 }
 
@@ -82,71 +58,85 @@ export function AddressFields({
     index,
 
     removeAddressRow,
-    // City search props passed down:
-    cities,
-    cityLoading,
-    cityQuery,
-    isCityPopoverOpen,
-    handleCityInputChange,
-    setIsCityPopoverOpen,
 }: AddressFieldsProps) {
     // Get required methods from form
-    const { control, setValue, getValues, watch } = form;
-
-    // --- Internal State for Street Search ---
-    const [streetQuery, setStreetQuery] = useState("");
-    const [streets, setStreets] = useState<ApiStreet[]>([]);
-    const [streetLoading, setStreetLoading] = useState(false);
-    const [isStreetPopoverOpen, setIsStreetPopoverOpen] = useState(false);
+    const { control, setValue, getValues, watch, clearErrors } = form;
+    const { t } = useTranslation();
 
     // Watch the city code *for this specific address row* directly from RHF state
     const cityCode = watch(`addresses.${index}.cityCode`);
 
-    // Debounce the internal street query state
-    const debouncedStreetQuery = useDebounce(streetQuery, DEBOUNCE_DELAY);
+    // --- Street / locality-only mode ---
+    const addressMode = watch(`addresses.${index}.addressMode`);
+    const [streetCheckLoading, setStreetCheckLoading] = useState(false);
+    // The latest street check; picking another city aborts it
+    const streetCheckRef = useRef<AbortController | null>(null);
+    useEffect(() => () => streetCheckRef.current?.abort(), []);
 
-    // Effect to fetch streets when debounced query or cityCode changes
-    useEffect(() => {
-        // Only fetch if we have a city and a valid debounced query
-        if (
-            cityCode &&
-            debouncedStreetQuery &&
-            debouncedStreetQuery.trim().length >= MIN_QUERY_LENGTH
-        ) {
-            const fetchStreetData = async () => {
-                setStreetLoading(true);
-                setStreets([]); // Clear previous results
-                try {
-                    const results = await fetchStreets(
-                        debouncedStreetQuery,
-                        cityCode
-                    );
-                    setStreets(results);
-                } catch (error: unknown) {
-                    console.error(
-                        `Failed to fetch streets for address index ${index}:`,
-                        error
-                    );
-                    setStreets([]);
-                    toast.error("Error Fetching Streets", {
-                        description:
-                            error instanceof Error
-                                ? error.message
-                                : "Could not fetch street data.",
-                    });
-                } finally {
-                    setStreetLoading(false);
-                }
-            };
-            fetchStreetData();
-        } else {
-            setStreets([]); // Clear if no city or query is too short
+    // Clears the fields of both variants so nothing from the old mode is left behind
+    const switchAddressMode = (mode: AddressMode) => {
+        setValue(`addresses.${index}.addressMode`, mode, { shouldDirty: true });
+        for (const name of [
+            "streetCode",
+            "streetName",
+            "streetNumber",
+            "entrance",
+            "floor",
+            "apartment",
+            "addressLine",
+            "poBox",
+        ] as const) {
+            setValue(`addresses.${index}.${name}`, "", { shouldDirty: true });
+            clearErrors(`addresses.${index}.${name}`);
         }
-    }, [debouncedStreetQuery, cityCode, index]); // Dependencies for street fetch
+    };
+
+    // Switches to locality-only mode when the selected city has no streets
+    // Only the latest check may stop the spinner or warn; superseded ones are aborted
+    const checkCityStreets = async (city: CityOption) => {
+        streetCheckRef.current?.abort();
+        const controller = new AbortController();
+        streetCheckRef.current = controller;
+        setStreetCheckLoading(true);
+        try {
+            const hasStreets = await geoProvider.cityHasStreets(
+                city.סמל_ישוב,
+                city.שם_ישוב,
+                controller.signal
+            );
+            // Ignore the answer if another city was picked (or the form reset) meanwhile
+            if (
+                controller.signal.aborted ||
+                getValues(`addresses.${index}.cityCode`) !== city.סמל_ישוב
+            ) {
+                return;
+            }
+            if (!hasStreets) {
+                switchAddressMode("localityOnly");
+            }
+        } catch (error: unknown) {
+            if (controller.signal.aborted) {
+                return;
+            }
+            console.error(
+                `Failed to check streets for address index ${index}:`,
+                error
+            );
+            toast.warning(t("toast.streetCheckFailed"), {
+                description: t("toast.streetCheckHint"),
+            });
+        } finally {
+            if (streetCheckRef.current === controller) {
+                streetCheckRef.current = null;
+                setStreetCheckLoading(false);
+            }
+        }
+    };
 
-    // Handler for internal street input change
-    const handleStreetInputChange = (query: string) => {
-        setStreetQuery(query);
+    // Reset street fields when the city changes; back to street mode until we know this city has no streets
+    const handleCityChange = (city: CityOption) => {
+        switchAddressMode("street");
+        checkCityStreets(city);
     };
 
     // --- JSX for the Address Row ---
@@ -158,9 +148,9 @@ export function AddressFields({
                 type="button"
                 variant="ghost"
                 size="icon"
-                className="absolute top-2 right-2 text-destructive hover:text-destructive"
+                className="absolute top-2 end-2 text-destructive hover:text-destructive"
                 onClick={() => removeAddressRow(index)}
-                aria-label="Remove address"
+                aria-label={t("addresses.removeAria")}
                 // Optionally disable if it's the last address (would need addressFields.length passed down)
             >
                 <Trash2 className="h-4 w-4" />
@@ -172,20 +162,24 @@ export function AddressFields({
                 name={`addresses.${index}.addressType`}
                 render={({ field }) => (
                     <FormItem>
-                        <FormLabel>Address Type</FormLabel>
+                        <FormLabel>{t("address.typeLabel")}</FormLabel>
                         <Select
                             onValueChange={field.onChange}
                             defaultValue={field.value}
                         >
                             <FormControl>
                                 <SelectTrigger>
-                                    <SelectValue placeholder="Type" />
+                                    <SelectValue
+                                        placeholder={t("address.typePlaceholder")}
+                                    />
                                 </SelectTrigger>
                             </FormControl>
                             <SelectContent>
-                                <SelectItem value="Home">Home</SelectItem>
-                                <SelectItem value="Work">Work</SelectItem>
-                                <SelectItem value="Other">Other</SelectItem>
+                                {addressTypeEnum.options.map((type) => (
+                                    <SelectItem key={type} value={type}>
+                                        {t(`addressType.${type}`)}
+                                    </SelectItem>
+                                ))}
                             </SelectContent>
                         </Select>
                         <FormMessage />
@@ -193,286 +187,187 @@ export function AddressFields({
                 )}
             />
 
-            {/* City Combobox (Uses state/handlers passed down) */}
-            <FormField
-                control={control}
-                name={`addresses.${index}.cityCode`} // Controls the city code value
-                render={({ field: cityControllerField }) => (
-                    <FormItem className="flex flex-col">
-                        <FormLabel>City</FormLabel>
-                        {/* Uses the shared popover state from parent */}
-                        <Popover
-                            open={isCityPopoverOpen}
-                            onOpenChange={setIsCityPopoverOpen}
-                            modal={true}
-                        >
-                            <PopoverTrigger asChild>
-                                <FormControl>
-                                    <Button
-                                        variant="outline"
-                                        role="combobox"
-                                        className={cn(
-                                            "w-full justify-between",
-                                            !cityControllerField.value &&
-                                                "text-muted-foreground"
-                                        )}
-                                    >
-                                        {/* Display name for the selected code */}
-                                        {getValues(
-                                            `addresses.${index}.cityName`
-                                        ) || "Select city..."}
-                                        <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
-                                    </Button>
-                                </FormControl>
-                            </PopoverTrigger>
-                            <PopoverContent className="w-[--radix-popover-trigger-width] max-h-[--radix-popover-content-available-height] p-0">
-                                {/* Uses shared query state and input handler */}
-                                <Command shouldFilter={false}>
-                                    <CommandInput
-                                        placeholder="Search city..."
-                                        value={cityQuery}
-                                        onValueChange={handleCityInputChange}
-                                    />
-                                    <CommandList>
-                                        {/* Uses shared loading state and results */}
-                                        <CommandEmpty>
-                                            {cityLoading
-                                                ? "Loading..."
-                                                : cityQuery.length <
-                                                  MIN_QUERY_LENGTH
-                                                ? "Type more to search"
-                                                : "No city found."}
-                                        </CommandEmpty>
-                                        {cityLoading && (
-                                            <div className="p-2 flex items-center justify-center">
-                                                <Loader2 className="h-4 w-4 animate-spin" />
-                                            </div>
-                                        )}
-                                        {!cityLoading && cities.length > 0 && (
-                                            <CommandGroup>
-                                                {cities.map((city: ApiCity) => (
-                                                    <CommandItem
-                                                        key={
-                                                            city._id ??
-                                                            city.סמל_ישוב
-                                                        } // Use correct API key
-                                                        value={city.שם_ישוב} // Use correct API key
-                                                        onSelect={() => {
-                                                            const setValueOptions =
-                                                                {
-                                                                    shouldValidate:
-                                                                        true,
-                                                                    shouldDirty:
-                                                                        true,
-                                                                };
-                                                            // Set form values using correct API keys
-                                                            setValue(
-                                                                `addresses.${index}.cityCode`,
-                                                                city.סמל_ישוב,
-                                                                setValueOptions
-                                                            );
-                                                            setValue(
-                                                                `addresses.${index}.cityName`,
-                                                                city.שם_ישוב,
-                                                                setValueOptions
-                                                            );
-                                                            // Reset street fields when city changes
-                                                            setValue(
-                                                                `addresses.${index}.streetCode`,
-                                                                "",
-                                                                setValueOptions
-                                                            );
-                                                            setValue(
-                                                                `addresses.${index}.streetName`,
-                                                                "",
-                                                                {
-                                                                    shouldDirty:
-                                                                        true,
-                                                                }
-                                                            );
-                                                            setValue(
-                                                                `addresses.${index}.streetNumber`,
-                                                                1,
-                                                                setValueOptions
-                                                            ); // Reset to default valid number
-                                                            setStreetQuery(""); // Reset local street search
-                                                            setStreets([]);
-                                                            setIsCityPopoverOpen(
-                                                                false
-                                                            ); // Close shared popover
-                                                        }}
-                                                    >
-                                                        <Check
-                                                            className={cn(
-                                                                "mr-2 h-4 w-4",
-                                                                cityControllerField.value ===
-                                                                    city.סמל_ישוב
-                                                                    ? "opacity-100"
-                                                                    : "opacity-0"
-                                                            )}
-                                                        />
-                                                        {city.שם_ישוב}
-                                                    </CommandItem>
-                                                ))}
-                                            </CommandGroup>
-                                        )}
-                                    </CommandList>
-                                </Command>
-                            </PopoverContent>
-                        </Popover>
-                        <FormMessage />
-                    </FormItem>
-                )}
+            {/* City Combobox (own query, results and popover per row) */}
+            <CityCombobox
+                form={form}
+                index={index}
+                onCityChange={handleCityChange}
             />
 
-            {/* Street Combobox (Uses internal state) */}
-            <FormField
-                control={control}
-                name={`addresses.${index}.streetCode`}
-                render={({ field: streetControllerField }) => (
-                    <FormItem className="flex flex-col">
-                        <FormLabel>Street</FormLabel>
-                        <Popover
-                            open={isStreetPopoverOpen}
-                            onOpenChange={setIsStreetPopoverOpen}
-                            modal={true}
-                        >
-                            <PopoverTrigger asChild>
+            {/* No-street toggle: set automatically when the city has no streets in the registry */}
+            <div className="flex flex-row items-center space-x-3">
+                <Checkbox
+                    id={`addresses-${index}-locality-only`}
+                    checked={addressMode === "localityOnly"}
+                    onCheckedChange={(checked) =>
+                        switchAddressMode(
+                            checked === true ? "localityOnly" : "street"
+                        )
+                    }
+                    disabled={!cityCode || streetCheckLoading}
+                />
+                <Label
+                    htmlFor={`addresses-${index}-locality-only`}
+                    className="text-sm font-normal"
+                >
+                    {t("address.localityOnly")}
+                </Label>
+                {streetCheckLoading && (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                )}
+            </div>
+
+            {addressMode === "street" ? (
+                <>
+                    {/* Street Combobox (remounted per city, so no query carries over) */}
+                    <StreetCombobox
+                        key={cityCode}
+                        form={form}
+                        index={index}
+                        cityCode={cityCode}
+                    />
+
+                    {/* Street Number + Building Details */}
+                    <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+                        <FormField
+                            control={control}
+                            name={`addresses.${index}.streetNumber`}
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>
+                                        {t("address.streetNumber")}
+                                    </FormLabel>
+                                    <FormControl>
+                                        <Input
+                                            placeholder={t(
+                                                "address.streetNumberPlaceholder"
+                                            )}
+                                            {...field}
+                                            value={field.value ?? ""} // Handle potential undefined/null from RHF
+                                        />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={control}
+                            name={`addresses.${index}.entrance`}
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>{t("address.entrance")}</FormLabel>
+                                    <FormControl>
+                                        <Input
+                                            placeholder={t("common.optional")}
+                                            maxLength={2}
+                                            {...field}
+                                            value={field.value ?? ""}
+                                        />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={control}
+                            name={`addresses.${index}.floor`}
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>{t("address.floor")}</FormLabel>
+                                    <FormControl>
+                                        <Input
+                                            inputMode="numeric"
+                                            placeholder={t("common.optional")}
+                                            {...field}
+                                            value={field.value ?? ""}
+                                        />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={control}
+                            name={`addresses.${index}.apartment`}
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>
+                                        {t("address.apartment")}
+                                    </FormLabel>
+                                    <FormControl>
+                                        <Input
+                                            placeholder={t("common.optional")}
+                                            {...field}
+                                            value={field.value ?? ""}
+                                        />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                    </div>
+                </>
+            ) : (
+                <>
+                    {/* Locality-only: free-text line and/or PO box */}
+                    <FormField
+                        control={control}
+                        name={`addresses.${index}.addressLine`}
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>
+                                    {t("address.addressLine")}
+                                </FormLabel>
                                 <FormControl>
-                                    <Button
-                                        variant="outline"
-                                        role="combobox"
-                                        disabled={!cityCode}
-                                        className={cn(
-                                            "w-full justify-between",
-                                            !streetControllerField.value &&
-                                                "text-muted-foreground"
+                                    <Input
+                                        placeholder={t(
+                                            "address.addressLinePlaceholder"
                                         )}
-                                    >
-                                        {getValues(
-                                            `addresses.${index}.streetName`
-                                        ) || "Select street..."}
-                                        <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
-                                    </Button>
+                                        {...field}
+                                        value={field.value ?? ""}
+                                    />
                                 </FormControl>
-                            </PopoverTrigger>
-                            <PopoverContent className="w-[--radix-popover-trigger-width] max-h-[--radix-popover-content-available-height] p-0">
-                                <Command shouldFilter={false}>
-                                    {/* Uses internal query state and handler */}
-                                    <CommandInput
-                                        placeholder="Search street..."
-                                        value={streetQuery}
-                                        onValueChange={handleStreetInputChange}
-                                        disabled={!cityCode}
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                    <FormField
+                        control={control}
+                        name={`addresses.${index}.poBox`}
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>{t("address.poBox")}</FormLabel>
+                                <FormControl>
+                                    <Input
+                                        inputMode="numeric"
+                                        placeholder={t("common.optional")}
+                                        className="w-40"
+                                        {...field}
+                                        value={field.value ?? ""}
                                     />
-                                    <CommandList>
-                                        {/* Uses internal loading state and results */}
-                                        <CommandEmpty>
-                                            {streetLoading
-                                                ? "Loading..."
-                                                : !cityCode
-                                                ? "Select city first."
-                                                : streetQuery.length <
-                                                  MIN_QUERY_LENGTH
-                                                ? "Type more to search"
-                                                : "No street found."}
-                                        </CommandEmpty>
-                                        {streetLoading && (
-                                            <div className="p-2 flex items-center justify-center">
-                                                <Loader2 className="h-4 w-4 animate-spin" />
-                                            </div>
-                                        )}
-                                        {!streetLoading &&
-                                            streets.length > 0 && (
-                                                <CommandGroup>
-                                                    {streets.map(
-                                                        (street: ApiStreet) => (
-                                                            <CommandItem
-                                                                key={
-                                                                    street._id ??
-                                                                    `${street.סמל_ישוב}-${street.סמל_רחוב}`
-                                                                } // Use correct API key
-                                                                value={
-                                                                    street.שם_רחוב
-                                                                } // Use correct API key
-                                                                onSelect={() => {
-                                                                    const setValueOptions =
-                                                                        {
-                                                                            shouldValidate:
-                                                                                true,
-                                                                            shouldDirty:
-                                                                                true,
-                                                                        };
-                                                                    // Convert street code to string before setting
-                                                                    const streetCodeAsString =
-                                                                        String(
-                                                                            street.סמל_רחוב
-                                                                        );
-
-                                                                    setValue(
-                                                                        `addresses.${index}.streetCode`,
-                                                                        streetCodeAsString, // Use string version
-                                                                        setValueOptions
-                                                                    );
-                                                                    setValue(
-                                                                        `addresses.${index}.streetName`,
-                                                                        street.שם_רחוב,
-                                                                        setValueOptions
-                                                                    );
-                                                                    setIsStreetPopoverOpen(
-                                                                        false
-                                                                    );
-                                                                    setStreetQuery(
-                                                                        ""
-                                                                    ); // Clear local search state
-                                                                }}
-                                                            >
-                                                                <Check
-                                                                    className={cn(
-                                                                        "mr-2 h-4 w-4",
-                                                                        streetControllerField.value ===
-                                                                            street.סמל_רחוב
-                                                                            ? "opacity-100"
-                                                                            : "opacity-0"
-                                                                    )}
-                                                                />
-                                                                {street.שם_רחוב}
-                                                            </CommandItem>
-                                                        )
-                                                    )}
-                                                </CommandGroup>
-                                            )}
-                                    </CommandList>
-                                </Command>
-                            </PopoverContent>
-                        </Popover>
-                        <FormMessage />
-                    </FormItem>
-                )}
-            />
+                                </FormControl>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                </>
+            )}
 
-            {/* Street Number Input */}
+            {/* Postal Code (Mikud) */}
             <FormField
                 control={control}
-                name={`addresses.${index}.streetNumber`}
+                name={`addresses.${index}.postalCode`}
                 render={({ field }) => (
                     <FormItem>
-                        <FormLabel>Street Number</FormLabel>
+                        <FormLabel>{t("address.postalCode")}</FormLabel>
                         <FormControl>
                             <Input
-                                type="number" // Keep type="number" for native controls if desired
-                                placeholder="No."
+                                inputMode="numeric"
+                                placeholder={t("address.postalCodePlaceholder")}
+                                maxLength={7}
+                                className="w-40"
                                 {...field}
-                                // Let RHF/Zod handle parsing/coercion; ensure value is controlled
-                                onChange={(event) =>
-                                    field.onChange(
-                                        event.target.value === ""
-                                            ? undefined
-                                            : Number(event.target.value)
-                                    )
-                                } // Pass number or undefined
-                                value={field.value ?? ""} // Handle potential undefined/null from RHF
-                                className="w-24"
+                                value={field.value ?? ""}
                             />
                         </FormControl>
                         <FormMessage />
@@ -486,10 +381,10 @@ export function AddressFields({
                 name={`addresses.${index}.comments`}
                 render={({ field }) => (
                     <FormItem>
-                        <FormLabel>Address Comments</FormLabel>
+                        <FormLabel>{t("address.comments")}</FormLabel>
                         <FormControl>
                             <Textarea
-                                placeholder="Optional notes (e.g., floor, entrance)"
+                                placeholder={t("address.commentsPlaceholder")}
                                 className="resize-none"
                                 {...field}
                             />
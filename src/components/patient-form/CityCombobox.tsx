@@ -0,0 +1,87 @@
+// src/components/PatientForm/CityCombobox.tsx
+import { UseFormReturn } from "react-hook-form";
+import { toast } from "sonner";
+import { PatientFormData, ApiCity } from "@/lib/schema";
+import { geoProvider } from "@/lib/geoProvider";
+import useTranslation from "@/lib/utils/UseTranslation";
+
+// UI Components
+import {
+    FormControl,
+    FormField,
+    FormItem,
+    FormLabel,
+    FormMessage,
+} from "@/components/ui/form";
+import { AsyncCombobox } from "@/components/ui/async-combobox";
+
+// What the form keeps of a city; search results (full ApiCity records) fit it too
+export type CityOption = Pick<ApiCity, "סמל_ישוב" | "שם_ישוב">;
+
+const getCityKey = (city: CityOption) => city.סמל_ישוב;
+const getCityLabel = (city: CityOption) => city.שם_ישוב;
+const searchCities = (
+    query: string,
+    signal: AbortSignal
+): Promise<CityOption[]> => geoProvider.searchCities(query, signal);
+
+interface CityComboboxProps {
+    form: UseFormReturn<PatientFormData>;
+    index: number; // Address row whose cityCode/cityName this picker sets
+    onCityChange: (city: CityOption) => void; // Called after a city was picked and set
+}
+
+/**
+ * City picker for one address row. Owns its query, lookup and popover state,
+ * so rows don't affect each other; the value lives in RHF as cityCode + cityName.
+ */
+export function CityCombobox({ form, index, onCityChange }: CityComboboxProps) {
+    const { control, setValue, watch } = form;
+    const { t } = useTranslation();
+
+    const cityName = watch(`addresses.${index}.cityName`);
+
+    const handleError = (error: Error) => {
+        console.error(`Failed to fetch cities for address index ${index}:`, error);
+        toast.error(t("toast.citiesError"), {
+            description: error.message || t("toast.citiesErrorFallback"),
+        });
+    };
+
+    const selectCity = (city: CityOption) => {
+        const setValueOptions = { shouldValidate: true, shouldDirty: true };
+        setValue(`addresses.${index}.cityCode`, city.סמל_ישוב, setValueOptions);
+        setValue(`addresses.${index}.cityName`, city.שם_ישוב, setValueOptions);
+        onCityChange(city);
+    };
+
+    return (
+        <FormField
+            control={control}
+            name={`addresses.${index}.cityCode`} // Controls the city code value
+            render={({ field }) => (
+                <FormItem className="flex flex-col">
+                    <FormLabel>{t("address.cityLabel")}</FormLabel>
+                    <FormControl>
+                        <AsyncCombobox
+                            value={
+                                field.value
+                                    ? { סמל_ישוב: field.value, שם_ישוב: cityName }
+                                    : null
+                            }
+                            onChange={selectCity}
+                            search={searchCities}
+                            getKey={getCityKey}
+                            getLabel={getCityLabel}
+                            placeholder={t("address.cityPlaceholder")}
+                            searchPlaceholder={t("address.citySearch")}
+                            emptyText={t("address.noCity")}
+                            onError={handleError}
+                        />
+                    </FormControl>
+                    <FormMessage />
+                </FormItem>
+            )}
+        />
+    );
+}
@@ -0,0 +1,127 @@
+// src/components/PatientForm/EmergencyContactFields.tsx
+import { UseFormReturn, FieldArrayWithId } from "react-hook-form";
+import { PatientFormData, contactRelationshipEnum } from "@/lib/schema";
+import useTranslation from "@/lib/utils/UseTranslation";
+import { PhoneNumberInput } from "./PhoneNumberInput";
+
+// UI Components
+import { Button } from "@/components/ui/button";
+import {
+    FormControl,
+    FormField,
+    FormItem,
+    FormLabel,
+    FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Trash2 } from "lucide-react";
+
+interface EmergencyContactFieldsProps {
+    form: UseFormReturn<PatientFormData>;
+    index: number;
+    field: FieldArrayWithId<PatientFormData, "emergencyContacts", "rhfId">;
+    removeContactRow: (index: number) => void;
+}
+
+export function EmergencyContactFields({
+    form,
+    index,
+
+    removeContactRow,
+}: EmergencyContactFieldsProps) {
+    const { control } = form;
+    const { t } = useTranslation();
+
+    return (
+        // Use field.rhfId for the key in the parent map
+        <div className="flex items-start space-x-4 border p-4 rounded">
+            <div className="flex-grow space-y-2">
+                <div className="flex items-start gap-2">
+                    {/* Contact Name */}
+                    <FormField
+                        control={control}
+                        name={`emergencyContacts.${index}.name`}
+                        render={({ field: nameField }) => (
+                            <FormItem className="flex-grow">
+                                <FormLabel className="sr-only">
+                                    {t("contact.nameLabel")}
+                                </FormLabel>
+                                <FormControl>
+                                    <Input
+                                        placeholder={t("contact.namePlaceholder")}
+                                        {...nameField}
+                                    />
+                                </FormControl>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                    {/* Relationship Select */}
+                    <FormField
+                        control={control}
+                        name={`emergencyContacts.${index}.relationship`}
+                        render={({ field: relationshipField }) => (
+                            <FormItem>
+                                <FormLabel className="sr-only">
+                                    {t("contact.relationshipLabel")}
+                                </FormLabel>
+                                <Select
+                                    onValueChange={relationshipField.onChange}
+                                    defaultValue={relationshipField.value}
+                                >
+                                    <FormControl>
+                                        <SelectTrigger className="w-36">
+                                            <SelectValue
+                                                placeholder={t(
+                                                    "contact.relationshipPlaceholder"
+                                                )}
+                                            />
+                                        </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                        {contactRelationshipEnum.options.map(
+                                            (relationship) => (
+                                                <SelectItem
+                                                    key={relationship}
+                                                    value={relationship}
+                                                >
+                                                    {t(
+                                                        `relationship.${relationship}`
+                                                    )}
+                                                </SelectItem>
+                                            )
+                                        )}
+                                    </SelectContent>
+                                </Select>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                </div>
+                {/* Country + Number */}
+                <PhoneNumberInput
+                    form={form}
+                    pathPrefix={`emergencyContacts.${index}.phone`}
+                />
+            </div>
+            {/* Remove Button */}
+            <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => removeContactRow(index)}
+                aria-label={t("contacts.removeAria")}
+                className="text-destructive hover:text-destructive"
+            >
+                <Trash2 className="h-4 w-4" />
+            </Button>
+        </div>
+    );
+}
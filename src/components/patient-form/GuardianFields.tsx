@@ -0,0 +1,147 @@
+// src/components/PatientForm/GuardianFields.tsx
+import { UseFormReturn } from "react-hook-form";
+import { PatientFormData, guardianRelationshipEnum } from "@/lib/schema";
+import useTranslation from "@/lib/utils/UseTranslation";
+import { normalizeIsraeliId } from "@/lib/validators";
+import { IsraeliIdHint } from "./IsraeliIdHint";
+import { PhoneNumberInput } from "./PhoneNumberInput";
+
+// UI Components
+import {
+    FormControl,
+    FormField,
+    FormItem,
+    FormLabel,
+    FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+
+interface GuardianFieldsProps {
+    form: UseFormReturn<PatientFormData>;
+}
+
+/**
+ * Guardian details, rendered by PatientForm only while the patient is a minor.
+ * The schema enforces the same rule, so hiding this block is not what makes it optional.
+ */
+export function GuardianFields({ form }: GuardianFieldsProps) {
+    const { control } = form;
+    const { t } = useTranslation();
+
+    return (
+        <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+                {/* Guardian First Name */}
+                <FormField
+                    control={control}
+                    name="guardian.firstName"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>{t("common.firstName")}</FormLabel>
+                            <FormControl>
+                                <Input
+                                    placeholder={t("guardian.firstNamePlaceholder")}
+                                    {...field}
+                                />
+                            </FormControl>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                {/* Guardian Last Name */}
+                <FormField
+                    control={control}
+                    name="guardian.lastName"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>{t("common.lastName")}</FormLabel>
+                            <FormControl>
+                                <Input
+                                    placeholder={t("guardian.lastNamePlaceholder")}
+                                    {...field}
+                                />
+                            </FormControl>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+            </div>
+            {/* Guardian ID (Israeli ID only) */}
+            <FormField
+                control={control}
+                name="guardian.id"
+                render={({ field }) => (
+                    <FormItem>
+                        <FormLabel>{t("guardian.idLabel")}</FormLabel>
+                        <FormControl>
+                            <Input
+                                placeholder={t("guardian.idPlaceholder")}
+                                {...field}
+                                onBlur={() => {
+                                    field.onChange(
+                                        normalizeIsraeliId(field.value)
+                                    );
+                                    field.onBlur();
+                                }}
+                            />
+                        </FormControl>
+                        <IsraeliIdHint value={field.value} />
+                        <FormMessage />
+                    </FormItem>
+                )}
+            />
+            {/* Relationship */}
+            <FormField
+                control={control}
+                name="guardian.relationship"
+                render={({ field }) => (
+                    <FormItem>
+                        <FormLabel>
+                            {t("guardian.relationshipLabel")}
+                        </FormLabel>
+                        <Select
+                            onValueChange={field.onChange}
+                            value={field.value}
+                        >
+                            <FormControl>
+                                <SelectTrigger>
+                                    <SelectValue
+                                        placeholder={t(
+                                            "guardian.relationshipPlaceholder"
+                                        )}
+                                    />
+                                </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                                {guardianRelationshipEnum.options.map(
+                                    (relationship) => (
+                                        <SelectItem
+                                            key={relationship}
+                                            value={relationship}
+                                        >
+                                            {t(`relationship.${relationship}`)}
+                                        </SelectItem>
+                                    )
+                                )}
+                            </SelectContent>
+                        </Select>
+                        <FormMessage />
+                    </FormItem>
+                )}
+            />
+            {/* Guardian Phone */}
+            <div className="space-y-2">
+                <Label>{t("guardian.phoneLabel")}</Label>
+                <PhoneNumberInput form={form} pathPrefix="guardian.phone" />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,40 @@
+// src/components/PatientForm/IsraeliIdHint.tsx
+import { getIsraeliIdFeedback } from "@/lib/validators";
+import useTranslation from "@/lib/utils/UseTranslation";
+import { FormDescription } from "@/components/ui/form";
+import { CircleAlert, CircleCheck } from "lucide-react";
+
+interface IsraeliIdHintProps {
+    value: string; // Raw ID input, as typed
+}
+
+/**
+ * Live check-digit feedback shown under the Israeli ID input while typing.
+ * Renders nothing until the ID has 9 digits: typed, or zero-padded on blur.
+ */
+export function IsraeliIdHint({ value }: IsraeliIdHintProps) {
+    const { t } = useTranslation();
+    const feedback = getIsraeliIdFeedback(value ?? "");
+
+    if (feedback.status === "incomplete") {
+        return null;
+    }
+
+    if (feedback.status === "valid") {
+        return (
+            <FormDescription className="flex items-center gap-1 text-green-700 dark:text-green-500">
+                <CircleCheck className="h-4 w-4" />
+                {t("idHint.ok")}
+            </FormDescription>
+        );
+    }
+
+    return (
+        <FormDescription className="flex items-center gap-1 text-amber-700 dark:text-amber-500">
+            <CircleAlert className="h-4 w-4" />
+            {t("idHint.mismatch", {
+                expected: feedback.expectedCheckDigit,
+            })}
+        </FormDescription>
+    );
+}
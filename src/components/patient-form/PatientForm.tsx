@@ -1,7 +1,7 @@
 // src/components/PatientForm.tsx
 "use client";
 
-import { useState, useEffect } from "react";
+import { useEffect, useRef } from "react";
 import {
     useForm,
     useFieldArray,
@@ -9,6 +9,7 @@ import {
     UseFormReturn,
     SubmitHandler,
     FieldArrayWithId, // Import this for typing the 'field' prop
+    FieldPath,
 } from "react-hook-form";
 
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -18,23 +19,48 @@ import { toast } from "sonner";
 import {
     patientSchema,
     PatientFormData,
-    ApiCity,
     PhoneNumberData,
     AddressData,
+    GuardianData,
+    EmergencyContactData,
+    IdentifierType,
+    identifierTypeEnum,
+    hmoEnum,
 } from "@/lib/schema";
-import { fetchCities, postPatientData } from "@/lib/api"; // fetchStreets is used in AddressFields
-// Assuming useDebounce hook is the default export from this file
-import useDebounce from "@/lib/utils/UseDebounce";
+import { DEFAULT_PHONE_COUNTRY } from "@/lib/phoneCountries";
+import {
+    errorMessage,
+    patientErrorMap,
+    submitErrorMessage,
+    translateErrorMessage,
+} from "@/lib/errorMessages";
+import { normalizeIsraeliId } from "@/lib/validators";
+import {
+    getAgeInYears,
+    getDateOfBirthBounds,
+    isMinor,
+} from "@/lib/dateOfBirth";
+import { createSubmissionId, postPatientData, SubmitError } from "@/lib/api";
+import { isOutboxAvailable, submissionOutbox } from "@/lib/outbox";
+import {
+    isTransientSubmitError,
+    type SubmitFieldError,
+} from "@/lib/submitContract";
+import useTranslation from "@/lib/utils/UseTranslation";
 
 // Import the actual field array components
 import { AddressFields } from "./AddressFields"; // Adjust path if necessary
 import { PhoneFields } from "./PhoneFields"; // Adjust path if necessary
+import { IsraeliIdHint } from "./IsraeliIdHint";
+import { GuardianFields } from "./GuardianFields";
+import { EmergencyContactFields } from "./EmergencyContactFields";
 
 // Shadcn UI Components
 import { Button } from "@/components/ui/button";
 import {
     Form,
     FormControl,
+    FormDescription,
     FormField,
     FormItem,
     FormLabel,
@@ -56,40 +82,60 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 
 import { PlusCircle, Loader2 } from "lucide-react"; // Keep icons used directly
 
-// --- Constants ---
-const DEBOUNCE_DELAY = 350;
-const MIN_QUERY_LENGTH = 2;
-
 // --- Default Values ---
 const defaultPhoneNumber: PhoneNumberData = {
     type: "Mobile",
+    country: DEFAULT_PHONE_COUNTRY,
     number: "",
     isMain: false,
 };
 
-// Matches AddressData - streetNumber is REQUIRED by schema
+const defaultGuardian: GuardianData = {
+    firstName: "",
+    lastName: "",
+    id: "",
+    relationship: "Parent",
+    phone: { country: DEFAULT_PHONE_COUNTRY, number: "" },
+};
+
+const defaultEmergencyContact: EmergencyContactData = {
+    name: "",
+    relationship: "Parent",
+    phone: { country: DEFAULT_PHONE_COUNTRY, number: "" },
+};
+
+// Matches AddressData - streetNumber is REQUIRED by schema, the building details are optional
 const defaultAddress: AddressData = {
+    addressMode: "street",
     cityCode: "",
     cityName: "",
     streetCode: "",
     streetName: "",
-    streetNumber: 1, // Use valid default number for required field
+    streetNumber: "",
+    entrance: "",
+    floor: "",
+    apartment: "",
+    postalCode: "",
     addressType: "Home",
     comments: "",
 };
 
 export function PatientForm() {
+    const { t, language } = useTranslation();
     const form = useForm<PatientFormData>({
         // ***** THE FIX IS HERE *****
-        resolver: zodResolver(patientSchema),
+        // The error map turns zod's built-in messages into translatable message IDs
+        resolver: zodResolver(patientSchema, { errorMap: patientErrorMap }),
         // ***************************
         defaultValues: {
-            id: "",
+            identifier: { type: "IsraeliId", value: "" },
             firstName: "",
             lastName: "",
+            dateOfBirth: "",
             phoneNumbers: [{ ...defaultPhoneNumber, isMain: true }],
             hmo: "Clalit",
             addresses: [defaultAddress],
+            emergencyContacts: [],
         },
         mode: "onBlur",
     });
@@ -114,60 +160,51 @@ export function PatientForm() {
         keyName: "rhfId", // Use a unique key name
     });
 
-    // --- State for SHARED Async City Combobox ---
-    const [cityQuery, setCityQuery] = useState("");
-    const [cities, setCities] = useState<ApiCity[]>([]);
-    const [cityLoading, setCityLoading] = useState(false);
-    const [isCityPopoverOpen, setIsCityPopoverOpen] = useState(false); // Shared popover state
+    const {
+        fields: contactFields,
+        append: appendContact,
+        remove: removeContact,
+    } = useFieldArray({
+        control: form.control,
+        name: "emergencyContacts",
+        keyName: "rhfId", // Use a unique key name
+    });
 
-    const debouncedCityQuery = useDebounce(cityQuery, DEBOUNCE_DELAY);
+    // --- Guardian block follows the patient's age ---
+    const dateOfBirth = form.watch("dateOfBirth");
+    const patientAge = getAgeInYears(dateOfBirth);
+    const patientIsMinor = isMinor(dateOfBirth);
 
-    // --- Effect to Fetch Cities based on Debounced Query ---
     useEffect(() => {
-        if (
-            debouncedCityQuery &&
-            debouncedCityQuery.trim().length >= MIN_QUERY_LENGTH
-        ) {
-            const fetchCityData = async () => {
-                setCityLoading(true);
-                setCities([]); // Clear previous results
-                try {
-                    const results = await fetchCities(debouncedCityQuery);
-                    setCities(results);
-                } catch (error: unknown) {
-                    console.error("Failed to fetch cities:", error);
-                    setCities([]); // Clear results on error
-                    toast.error("Error Fetching Cities", {
-                        description:
-                            error instanceof Error
-                                ? error.message
-                                : "Could not fetch city data.",
-                    });
-                } finally {
-                    setCityLoading(false);
-                }
-            };
-            fetchCityData();
-        } else {
-            setCities([]); // Clear results if query is too short or empty
-        }
-    }, [debouncedCityQuery]); // Effect dependency
-
-    // --- Handlers Passed Down or Used Here ---
-    const handleCityInputChange = (query: string) => {
-        setCityQuery(query);
-        // If the popover isn't open, open it when user types enough
-        if (!isCityPopoverOpen && query.length >= MIN_QUERY_LENGTH) {
-            setIsCityPopoverOpen(true);
-        } else if (query.length < MIN_QUERY_LENGTH) {
-            // Optionally close if query becomes too short
-            // setIsCityPopoverOpen(false);
+        const hasGuardian = form.getValues("guardian") !== undefined;
+        if (patientIsMinor && !hasGuardian) {
+            form.setValue("guardian", defaultGuardian);
+        } else if (!patientIsMinor && hasGuardian) {
+            // Drop guardian details entered before the date of birth was corrected
+            form.setValue("guardian", undefined);
+            form.clearErrors("guardian");
         }
+    }, [patientIsMinor, form]);
+
+    // Replace the whole identifier so no value from the previous type leaks into the new one
+    const handleIdentifierTypeChange = (type: IdentifierType) => {
+        form.setValue(
+            "identifier",
+            type === "Passport"
+                ? { type, value: "", issuingCountry: "" }
+                : { type, value: "" },
+            { shouldDirty: true }
+        );
+        // Errors from the previous type's rules no longer apply
+        form.clearErrors("identifier");
     };
 
     const addAddressRow = () => appendAddress(defaultAddress);
     const removeAddressRow = (index: number) => removeAddress(index);
 
+    const addContactRow = () => appendContact(defaultEmergencyContact);
+    const removeContactRow = (index: number) => removeContact(index);
+
     const addPhoneRow = () =>
         appendPhone({
             ...defaultPhoneNumber,
@@ -224,43 +261,134 @@ export function PatientForm() {
     };
 
     // --- Submission Handler ---
+    // The submission ID goes with the data it was first sent with. Resubmitting
+    // the same data (e.g. after a timeout whose request did get through)
+    // replays that result instead of sending it twice; data that was changed
+    // since, e.g. to fix what the server rejected, is a new submission.
+    const lastSubmission = useRef<{ id: string; payload: string } | null>(
+        null
+    );
+
+    const getSubmissionId = (data: PatientFormData) => {
+        const payload = JSON.stringify(data);
+        if (lastSubmission.current?.payload !== payload) {
+            lastSubmission.current = { id: createSubmissionId(), payload };
+        }
+        return lastSubmission.current.id;
+    };
+
+    // Sends with the data's submission ID. If the server still has that ID
+    // for other data, sends once more as a new submission.
+    const sendSubmission = async (data: PatientFormData) => {
+        try {
+            return await postPatientData(data, getSubmissionId(data));
+        } catch (error) {
+            if (
+                !(error instanceof SubmitError) ||
+                error.code !== "IDEMPOTENCY_KEY_REUSED"
+            ) {
+                throw error;
+            }
+            lastSubmission.current = null;
+            return postPatientData(data, getSubmissionId(data));
+        }
+    };
+
     const onSubmit: SubmitHandler<PatientFormData> = async (data) => {
         console.log("Form Data Validated:", data);
-        const submissionToastId = toast.loading("Submitting...");
+        const submissionToastId = toast.loading(t("toast.submitting"));
 
         try {
-            // postPatientData will either return SubmitSuccessResponse OR throw an error
-            await postPatientData(data);
+            // sendSubmission will either return SubmitSuccessResponse OR throw an error
+            await sendSubmission(data);
 
             // If we get here, it means result.success was true (otherwise postPatientData threw)
-            toast.success("Success!", {
+            toast.success(t("toast.success"), {
                 id: submissionToastId,
-                description: "Patient information submitted.",
+                description: t("toast.successDescription"),
             });
             form.reset(); // Reset form to RHF defaultValues
-
-            // Reset local component state as well
-            setCityQuery("");
-            setCities([]);
-            setCityLoading(false);
-            setIsCityPopoverOpen(false);
+            lastSubmission.current = null; // The next patient is a new submission
 
             // The 'else' block is removed
         } catch (error: unknown) {
             // Errors from postPatientData (network, serverless function, etc.) are caught here
             console.error("Submission Handler Error:", error);
+            if (
+                error instanceof SubmitError &&
+                isTransientSubmitError(error.code) &&
+                (await queueForLater(data, error))
+            ) {
+                toast.warning(t("toast.queued"), {
+                    id: submissionToastId,
+                    description: t("toast.queuedDescription"),
+                });
+                return;
+            }
+            if (error instanceof SubmitError) {
+                showServerFieldErrors(error.fieldErrors);
+            }
+            // By code, in the UI language; the server's message is English
             const message =
-                error instanceof Error
-                    ? error.message // Use the error message thrown by postPatientData or Axios
-                    : "Could not submit form. Please check connection or server logs."; // Generic fallback
-            toast.error("Submission Error", {
+                error instanceof SubmitError
+                    ? translateErrorMessage(
+                          submitErrorMessage(error.code),
+                          language
+                      )
+                    : t("toast.submitErrorFallback"); // Generic fallback
+            toast.error(t("toast.submitError"), {
                 id: submissionToastId,
                 description: message,
             });
         }
     };
 
+    // Moves a submission that failed for a passing reason (e.g. no network)
+    // into the outbox, which resends it; the form is then free for the next
+    // patient. False if it couldn't be queued, so the data stays in the form.
+    const queueForLater = async (data: PatientFormData, error: SubmitError) => {
+        if (!isOutboxAvailable()) {
+            return false;
+        }
+        try {
+            // The ID the failed send used, so a resend can be matched to it
+            await submissionOutbox.add(getSubmissionId(data), data, error);
+        } catch (queueError) {
+            console.error("Failed to queue submission:", queueError);
+            return false;
+        }
+        form.reset();
+        lastSubmission.current = null;
+        return true;
+    };
+
+    // Puts the server's field errors on the matching inputs and focuses the first one
+    const showServerFieldErrors = (fieldErrors: SubmitFieldError[]) => {
+        fieldErrors.forEach(({ path, messageId }, i) => {
+            // A message ID, so FormMessage shows it in the UI language (and
+            // switches with it). The English text is in the logged SubmitError.
+            const error = {
+                type: "server",
+                message:
+                    messageId ??
+                    (path
+                        ? errorMessage("common.invalidValue")
+                        : submitErrorMessage("VALIDATION_FAILED")),
+            };
+            if (path) {
+                // Paths come from the same patientSchema the form uses
+                form.setError(path as FieldPath<PatientFormData>, error, {
+                    shouldFocus: i === 0,
+                });
+            } else {
+                form.setError("root.server", error);
+            }
+        });
+    };
+
     const { isSubmitting } = form.formState;
+    const identifierType = form.watch("identifier.type");
+    const dateOfBirthBounds = getDateOfBirthBounds();
 
     // --- JSX Structure ---
     return (
@@ -271,36 +399,130 @@ export function PatientForm() {
                 {/* Section 1: Patient Details */}
                 <Card>
                     <CardHeader>
-                        <CardTitle>Patient Information</CardTitle>
+                        <CardTitle>{t("patient.sectionTitle")}</CardTitle>
                     </CardHeader>
                     <CardContent className="space-y-4">
-                        {/* ID */}
+                        {/* Identifier Type */}
                         <FormField
                             control={form.control}
-                            name="id"
+                            name="identifier.type"
                             render={({ field }) => (
                                 <FormItem>
-                                    <FormLabel>Patient ID</FormLabel>
+                                    <FormLabel>
+                                        {t("identifier.typeLabel")}
+                                    </FormLabel>
+                                    <Select
+                                        onValueChange={(value) =>
+                                            handleIdentifierTypeChange(
+                                                value as IdentifierType
+                                            )
+                                        }
+                                        value={field.value}
+                                    >
+                                        <FormControl>
+                                            <SelectTrigger>
+                                                <SelectValue
+                                                    placeholder={t(
+                                                        "identifier.typePlaceholder"
+                                                    )}
+                                                />
+                                            </SelectTrigger>
+                                        </FormControl>
+                                        <SelectContent>
+                                            {identifierTypeEnum.options.map(
+                                                (type) => (
+                                                    <SelectItem
+                                                        key={type}
+                                                        value={type}
+                                                    >
+                                                        {t(
+                                                            `identifier.${type}.option`
+                                                        )}
+                                                    </SelectItem>
+                                                )
+                                            )}
+                                        </SelectContent>
+                                    </Select>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        {/* ID (label and validation follow the identifier type) */}
+                        <FormField
+                            control={form.control}
+                            name="identifier.value"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>
+                                        {t(`identifier.${identifierType}.label`)}
+                                    </FormLabel>
                                     <FormControl>
                                         <Input
-                                            placeholder="Enter ID"
+                                            placeholder={t(
+                                                `identifier.${identifierType}.placeholder`
+                                            )}
                                             {...field}
+                                            onBlur={() => {
+                                                // Show the stored form (no separators, zero-padded) once typing is done
+                                                if (
+                                                    identifierType ===
+                                                    "IsraeliId"
+                                                ) {
+                                                    field.onChange(
+                                                        normalizeIsraeliId(
+                                                            field.value
+                                                        )
+                                                    );
+                                                }
+                                                field.onBlur();
+                                            }}
                                         />
                                     </FormControl>
+                                    {identifierType === "IsraeliId" && (
+                                        <IsraeliIdHint value={field.value} />
+                                    )}
                                     <FormMessage />
                                 </FormItem>
                             )}
                         />
+                        {/* Passport Issuing Country */}
+                        {identifierType === "Passport" && (
+                            <FormField
+                                control={form.control}
+                                name="identifier.issuingCountry"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>
+                                            {t("identifier.issuingCountry")}
+                                        </FormLabel>
+                                        <FormControl>
+                                            <Input
+                                                placeholder={t(
+                                                    "identifier.issuingCountryPlaceholder"
+                                                )}
+                                                maxLength={3}
+                                                className="w-48 uppercase"
+                                                {...field}
+                                                value={field.value ?? ""}
+                                            />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                        )}
                         {/* First Name */}
                         <FormField
                             control={form.control}
                             name="firstName"
                             render={({ field }) => (
                                 <FormItem>
-                                    <FormLabel>First Name</FormLabel>
+                                    <FormLabel>{t("common.firstName")}</FormLabel>
                                     <FormControl>
                                         <Input
-                                            placeholder="Enter first name"
+                                            placeholder={t(
+                                                "patient.firstNamePlaceholder"
+                                            )}
                                             {...field}
                                         />
                                     </FormControl>
@@ -314,13 +536,45 @@ export function PatientForm() {
                             name="lastName"
                             render={({ field }) => (
                                 <FormItem>
-                                    <FormLabel>Last Name</FormLabel>
+                                    <FormLabel>{t("common.lastName")}</FormLabel>
+                                    <FormControl>
+                                        <Input
+                                            placeholder={t(
+                                                "patient.lastNamePlaceholder"
+                                            )}
+                                            {...field}
+                                        />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        {/* Date of Birth */}
+                        <FormField
+                            control={form.control}
+                            name="dateOfBirth"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>{t("dob.label")}</FormLabel>
                                     <FormControl>
                                         <Input
-                                            placeholder="Enter last name"
+                                            type="date"
+                                            min={dateOfBirthBounds.min}
+                                            max={dateOfBirthBounds.max}
+                                            className="w-48"
                                             {...field}
                                         />
                                     </FormControl>
+                                    {patientAge !== null && (
+                                        <FormDescription>
+                                            {t(
+                                                patientIsMinor
+                                                    ? "dob.ageMinor"
+                                                    : "dob.age",
+                                                { age: patientAge }
+                                            )}
+                                        </FormDescription>
+                                    )}
                                     <FormMessage />
                                 </FormItem>
                             )}
@@ -331,7 +585,7 @@ export function PatientForm() {
                             name="hmo"
                             render={({ field }) => (
                                 <FormItem>
-                                    <FormLabel>HMO</FormLabel>
+                                    <FormLabel>{t("hmo.label")}</FormLabel>
                                     <Select
                                         onValueChange={field.onChange}
                                         defaultValue={field.value}
@@ -341,22 +595,22 @@ export function PatientForm() {
                                         {/* Ensure value is controlled */}
                                         <FormControl>
                                             <SelectTrigger>
-                                                <SelectValue placeholder="Select HMO" />
+                                                <SelectValue
+                                                    placeholder={t(
+                                                        "hmo.placeholder"
+                                                    )}
+                                                />
                                             </SelectTrigger>
                                         </FormControl>
                                         <SelectContent>
-                                            <SelectItem value="Clalit">
-                                                Clalit
-                                            </SelectItem>
-                                            <SelectItem value="Maccabi">
-                                                Maccabi
-                                            </SelectItem>
-                                            <SelectItem value="Mehuedet">
-                                                Meuhedet
-                                            </SelectItem>
-                                            <SelectItem value="Leumit">
-                                                Leumit
-                                            </SelectItem>
+                                            {hmoEnum.options.map((hmo) => (
+                                                <SelectItem
+                                                    key={hmo}
+                                                    value={hmo}
+                                                >
+                                                    {t(`hmo.${hmo}`)}
+                                                </SelectItem>
+                                            ))}
                                         </SelectContent>
                                     </Select>
                                     <FormMessage />
@@ -366,18 +620,37 @@ export function PatientForm() {
                     </CardContent>
                 </Card>
 
+                {/* Guardian (minors only) */}
+                {patientIsMinor && (
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>{t("guardian.sectionTitle")}</CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <GuardianFields
+                                form={form as UseFormReturn<PatientFormData>}
+                            />
+                            {/* Schema-level "guardian required" error */}
+                            <FormMessage>
+                                {form.formState.errors.guardian?.message}
+                            </FormMessage>
+                        </CardContent>
+                    </Card>
+                )}
+
                 {/* Section 2: Phone Numbers */}
                 <Card>
                     <CardHeader className="flex flex-row items-center justify-between">
-                        <CardTitle>Phone Numbers</CardTitle>
+                        <CardTitle>{t("phones.sectionTitle")}</CardTitle>
                         <Button
                             type="button"
                             variant="outline"
                             size="sm"
                             onClick={addPhoneRow}
-                            aria-label="Add phone number"
+                            aria-label={t("phones.addAria")}
                         >
-                            <PlusCircle className="mr-2 h-4 w-4" /> Add Phone
+                            <PlusCircle className="me-2 h-4 w-4" />{" "}
+                            {t("phones.add")}
                         </Button>
                     </CardHeader>
                     <CardContent className="space-y-4">
@@ -408,18 +681,64 @@ export function PatientForm() {
                     </CardContent>
                 </Card>
 
+                {/* Section 2b: Emergency Contacts */}
+                <Card>
+                    <CardHeader className="flex flex-row items-center justify-between">
+                        <CardTitle>{t("contacts.sectionTitle")}</CardTitle>
+                        <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={addContactRow}
+                            aria-label={t("contacts.addAria")}
+                        >
+                            <PlusCircle className="me-2 h-4 w-4" />{" "}
+                            {t("contacts.add")}
+                        </Button>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        {contactFields.map((field, index) => (
+                            <EmergencyContactFields
+                                key={field.rhfId}
+                                form={form as UseFormReturn<PatientFormData>}
+                                index={index}
+                                field={
+                                    field as FieldArrayWithId<
+                                        PatientFormData,
+                                        "emergencyContacts",
+                                        "rhfId"
+                                    >
+                                }
+                                removeContactRow={removeContactRow}
+                            />
+                        ))}
+                        {contactFields.length === 0 && (
+                            <p className="text-muted-foreground text-sm">
+                                {t("contacts.empty")}
+                            </p>
+                        )}
+                        {/* Show array-level validation errors (e.g., "required for minors") */}
+                        <FormMessage>
+                            {form.formState.errors.emergencyContacts?.root
+                                ?.message ||
+                                form.formState.errors.emergencyContacts?.message}
+                        </FormMessage>
+                    </CardContent>
+                </Card>
+
                 {/* Section 3: Addresses */}
                 <Card>
                     <CardHeader className="flex flex-row items-center justify-between">
-                        <CardTitle>Addresses</CardTitle>
+                        <CardTitle>{t("addresses.sectionTitle")}</CardTitle>
                         <Button
                             type="button"
                             variant="outline"
                             size="sm"
                             onClick={addAddressRow}
-                            aria-label="Add address"
+                            aria-label={t("addresses.addAria")}
                         >
-                            <PlusCircle className="mr-2 h-4 w-4" /> Add Address
+                            <PlusCircle className="me-2 h-4 w-4" />{" "}
+                            {t("addresses.add")}
                         </Button>
                     </CardHeader>
                     <CardContent className="space-y-6">
@@ -437,13 +756,6 @@ export function PatientForm() {
                                     >
                                 } // Be explicit
                                 removeAddressRow={removeAddressRow}
-                                // Pass city search state/handlers down
-                                cities={cities}
-                                cityLoading={cityLoading}
-                                cityQuery={cityQuery}
-                                isCityPopoverOpen={isCityPopoverOpen}
-                                handleCityInputChange={handleCityInputChange}
-                                setIsCityPopoverOpen={setIsCityPopoverOpen}
                                 isOnlyAddress={addressFields.length === 1} // Pass if needed
                             />
                         ))}
@@ -455,6 +767,11 @@ export function PatientForm() {
                     </CardContent>
                 </Card>
 
+                {/* Errors the server reported for the form as a whole */}
+                <FormMessage>
+                    {form.formState.errors.root?.server?.message}
+                </FormMessage>
+
                 {/* Submit Button */}
                 <Button
                     type="submit"
@@ -462,9 +779,11 @@ export function PatientForm() {
                     className="w-full sm:w-auto" // Responsive width
                 >
                     {isSubmitting && (
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        <Loader2 className="me-2 h-4 w-4 animate-spin" />
                     )}
-                    {isSubmitting ? "Submitting..." : "Submit Patient Info"}
+                    {isSubmitting
+                        ? t("submit.submitting")
+                        : t("submit.button")}
                 </Button>
             </form>
         </Form>
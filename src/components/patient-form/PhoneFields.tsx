@@ -1,6 +1,8 @@
 // src/components/PatientForm/PhoneFields.tsx
 import { UseFormReturn, FieldArrayWithId } from "react-hook-form"; // Import necessary types
-import { PatientFormData } from "@/lib/schema"; // Import types
+import { PatientFormData, phoneTypeEnum } from "@/lib/schema"; // Import types
+import useTranslation from "@/lib/utils/UseTranslation";
+import { PhoneNumberInput } from "./PhoneNumberInput";
 
 // UI Components
 import { Button } from "@/components/ui/button";
@@ -11,7 +13,6 @@ import {
     FormLabel,
     FormMessage,
 } from "@/components/ui/form";
-import { Input } from "@/components/ui/input";
 import {
     Select,
     SelectContent,
@@ -41,6 +42,7 @@ export function PhoneFields({
     handleMainPhoneChange,
 }: PhoneFieldsProps) {
     const { control } = form; // Get control from form prop
+    const { t } = useTranslation();
 
     return (
         // Use field.rhfId for the key in the parent map
@@ -54,48 +56,36 @@ export function PhoneFields({
                         { field: typeField } // Renamed field to avoid conflict
                     ) => (
                         <FormItem>
-                            <FormLabel className="sr-only">Type</FormLabel>
+                            <FormLabel className="sr-only">
+                                {t("phone.typeLabel")}
+                            </FormLabel>
                             <Select
                                 onValueChange={typeField.onChange}
                                 defaultValue={typeField.value}
                             >
                                 <FormControl>
                                     <SelectTrigger>
-                                        <SelectValue placeholder="Type" />
+                                        <SelectValue
+                                            placeholder={t("phone.typePlaceholder")}
+                                        />
                                     </SelectTrigger>
                                 </FormControl>
                                 <SelectContent>
-                                    <SelectItem value="Mobile">
-                                        Mobile
-                                    </SelectItem>
-                                    <SelectItem value="Home">Home</SelectItem>
-                                    <SelectItem value="Work">Work</SelectItem>
-
-                                    <SelectItem value="Other">Other</SelectItem>
+                                    {phoneTypeEnum.options.map((type) => (
+                                        <SelectItem key={type} value={type}>
+                                            {t(`phoneType.${type}`)}
+                                        </SelectItem>
+                                    ))}
                                 </SelectContent>
                             </Select>
                             <FormMessage />
                         </FormItem>
                     )}
                 />
-                {/* Number Input */}
-                <FormField
-                    control={control}
-                    name={`phoneNumbers.${index}.number`}
-                    render={(
-                        { field: numberField } // Renamed field
-                    ) => (
-                        <FormItem>
-                            <FormLabel className="sr-only">Number</FormLabel>
-                            <FormControl>
-                                <Input
-                                    placeholder="Phone number"
-                                    {...numberField}
-                                />
-                            </FormControl>
-                            <FormMessage />
-                        </FormItem>
-                    )}
+                {/* Country + Number */}
+                <PhoneNumberInput
+                    form={form}
+                    pathPrefix={`phoneNumbers.${index}`}
                 />
                 {/* isMain Checkbox */}
                 <FormField
@@ -120,7 +110,7 @@ export function PhoneFields({
                                 />
                             </FormControl>
                             <FormLabel className="text-sm font-normal leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70">
-                                Set as Main Phone
+                                {t("phone.setMain")}
                             </FormLabel>
                             <FormMessage />
                         </FormItem>
@@ -133,7 +123,7 @@ export function PhoneFields({
                 variant="ghost"
                 size="icon"
                 onClick={() => removePhoneRow(index)}
-                aria-label="Remove phone number"
+                aria-label={t("phones.removeAria")}
                 className="text-destructive hover:text-destructive"
                 // Disable logic might need access to phoneFields length from parent
                 // disabled={field.isMain && phoneFields.length === 1}
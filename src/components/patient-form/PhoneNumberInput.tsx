@@ -0,0 +1,122 @@
+// src/components/PatientForm/PhoneNumberInput.tsx
+import { UseFormReturn } from "react-hook-form";
+import { PatientFormData } from "@/lib/schema";
+import { PHONE_COUNTRIES } from "@/lib/phoneCountries";
+import useTranslation from "@/lib/utils/UseTranslation";
+
+// UI Components
+import {
+    FormControl,
+    FormField,
+    FormItem,
+    FormLabel,
+    FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+
+// Every object in the form that holds a { country, number } phone pair
+export type PhonePathPrefix =
+    | `phoneNumbers.${number}`
+    | "guardian.phone"
+    | `emergencyContacts.${number}.phone`;
+
+interface PhoneNumberInputProps {
+    form: UseFormReturn<PatientFormData>;
+    pathPrefix: PhonePathPrefix;
+}
+
+/**
+ * Country selector (defaults to Israel) plus the number input, shared by
+ * every phone in the form so they are all entered and validated the same way.
+ */
+export function PhoneNumberInput({ form, pathPrefix }: PhoneNumberInputProps) {
+    const { control } = form;
+    const { t, language } = useTranslation();
+    // Screen readers get the country's name in the UI language
+    const countryNames = new Intl.DisplayNames([language], { type: "region" });
+
+    return (
+        <div className="flex items-start gap-2">
+            {/* Country Select (defaults to Israel) */}
+            <FormField
+                control={control}
+                name={`${pathPrefix}.country`}
+                render={(
+                    { field: countryField } // Renamed field
+                ) => (
+                    <FormItem>
+                        <FormLabel className="sr-only">
+                            {t("phone.countryLabel")}
+                        </FormLabel>
+                        <Select
+                            onValueChange={(value) => {
+                                countryField.onChange(value);
+                                // Re-check the number against the new country's rules
+                                if (form.getValues(`${pathPrefix}.number`)) {
+                                    form.trigger(`${pathPrefix}.number`);
+                                }
+                            }}
+                            value={countryField.value}
+                        >
+                            <FormControl>
+                                <SelectTrigger className="w-32">
+                                    <SelectValue
+                                        placeholder={t("phone.countryLabel")}
+                                    />
+                                </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                                {PHONE_COUNTRIES.map((country) => (
+                                    <SelectItem
+                                        key={country.code}
+                                        value={country.code}
+                                    >
+                                        {country.code} +{country.dialCode}
+                                        <span className="sr-only">
+                                            {" "}
+                                            {countryNames.of(country.code) ??
+                                                country.name}
+                                        </span>
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <FormMessage />
+                    </FormItem>
+                )}
+            />
+            {/* Number Input */}
+            <FormField
+                control={control}
+                name={`${pathPrefix}.number`}
+                render={(
+                    { field: numberField } // Renamed field
+                ) => (
+                    <FormItem className="flex-grow">
+                        <FormLabel className="sr-only">
+                            {t("phone.numberLabel")}
+                        </FormLabel>
+                        <FormControl>
+                            <Input
+                                type="tel"
+                                // Numbers read left-to-right even in RTL languages
+                                dir="ltr"
+                                className="text-start"
+                                placeholder={t("phone.numberPlaceholder")}
+                                {...numberField}
+                            />
+                        </FormControl>
+                        <FormMessage />
+                    </FormItem>
+                )}
+            />
+        </div>
+    );
+}
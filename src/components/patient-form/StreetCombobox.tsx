@@ -0,0 +1,159 @@
+// src/components/PatientForm/StreetCombobox.tsx
+import { useCallback, useMemo } from "react";
+import { UseFormReturn } from "react-hook-form";
+import { toast } from "sonner";
+import { PatientFormData, ApiStreet } from "@/lib/schema";
+import { geoProvider } from "@/lib/geoProvider";
+import {
+    rankSearchResults,
+    toSearchKey,
+    type SearchEntry,
+} from "@/lib/hebrewSearch";
+import useAsyncLookup from "@/lib/utils/UseAsyncLookup";
+import useTranslation from "@/lib/utils/UseTranslation";
+
+// UI Components
+import {
+    FormControl,
+    FormField,
+    FormItem,
+    FormLabel,
+    FormMessage,
+} from "@/components/ui/form";
+import { AsyncCombobox } from "@/components/ui/async-combobox";
+
+const DEBOUNCE_DELAY = 350;
+const LOCAL_STREET_RESULT_LIMIT = 50; // Filtering the prefetched list is cheap, show more
+
+// What the form keeps of a street; search results (full ApiStreet records) fit it too
+type StreetOption = Pick<ApiStreet, "סמל_רחוב" | "שם_רחוב">;
+
+const getStreetKey = (street: StreetOption) => String(street.סמל_רחוב);
+const getStreetLabel = (street: StreetOption) => street.שם_רחוב;
+
+interface StreetComboboxProps {
+    form: UseFormReturn<PatientFormData>;
+    index: number; // Address row whose streetCode/streetName this picker sets
+    cityCode: string; // The row's city; empty disables the picker
+}
+
+/**
+ * Street picker for one address row. The city's full street list is loaded
+ * once, so search filters locally, instantly and offline; until it is there
+ * (or if it fails) each query goes to the geo provider instead.
+ */
+export function StreetCombobox({ form, index, cityCode }: StreetComboboxProps) {
+    const { control, setValue, watch } = form;
+    const { t } = useTranslation();
+
+    const streetName = watch(`addresses.${index}.streetName`);
+
+    // --- Full Street List of the Selected City ---
+    const loadStreetList = useMemo(
+        () =>
+            cityCode
+                ? (signal: AbortSignal) =>
+                      geoProvider.listStreets(cityCode, signal)
+                : null,
+        [cityCode]
+    );
+    const streetListLookup = useAsyncLookup<ApiStreet>(loadStreetList, {
+        // Street search falls back to per-query lookups below
+        onError: (error) =>
+            console.warn(
+                `Failed to load street list for address index ${index}:`,
+                error
+            ),
+    });
+
+    // Null until the list is loaded; an empty list is a city without streets
+    const streetList = useMemo((): SearchEntry<ApiStreet>[] | null => {
+        switch (streetListLookup.status) {
+            case "success":
+                return streetListLookup.results.map((street) => ({
+                    keys: [toSearchKey(street.שם_רחוב)],
+                    record: street,
+                }));
+            case "empty":
+                return [];
+            default:
+                return null;
+        }
+    }, [streetListLookup]);
+
+    // A new function once the list arrives, so an open search re-runs locally
+    const searchStreets = useCallback(
+        (query: string, signal: AbortSignal): Promise<StreetOption[]> =>
+            streetList
+                ? Promise.resolve(
+                      rankSearchResults(
+                          streetList,
+                          query,
+                          LOCAL_STREET_RESULT_LIMIT
+                      )
+                  )
+                : geoProvider.searchStreets(query, cityCode, signal),
+        [streetList, cityCode]
+    );
+
+    const handleError = (error: Error) => {
+        console.error(
+            `Failed to fetch streets for address index ${index}:`,
+            error
+        );
+        toast.error(t("toast.streetsError"), {
+            description: error.message || t("toast.streetsErrorFallback"),
+        });
+    };
+
+    const selectStreet = (street: StreetOption) => {
+        const setValueOptions = { shouldValidate: true, shouldDirty: true };
+        setValue(
+            `addresses.${index}.streetCode`,
+            String(street.סמל_רחוב),
+            setValueOptions
+        );
+        setValue(
+            `addresses.${index}.streetName`,
+            street.שם_רחוב,
+            setValueOptions
+        );
+    };
+
+    return (
+        <FormField
+            control={control}
+            name={`addresses.${index}.streetCode`}
+            render={({ field }) => (
+                <FormItem className="flex flex-col">
+                    <FormLabel>{t("address.streetLabel")}</FormLabel>
+                    <FormControl>
+                        <AsyncCombobox
+                            value={
+                                field.value
+                                    ? { סמל_רחוב: field.value, שם_רחוב: streetName }
+                                    : null
+                            }
+                            onChange={selectStreet}
+                            search={searchStreets}
+                            getKey={getStreetKey}
+                            getLabel={getStreetLabel}
+                            // The local list needs no debounce
+                            debounceMs={streetList ? 0 : DEBOUNCE_DELAY}
+                            disabled={!cityCode}
+                            placeholder={
+                                cityCode
+                                    ? t("address.streetPlaceholder")
+                                    : t("address.selectCityFirst")
+                            }
+                            searchPlaceholder={t("address.streetSearch")}
+                            emptyText={t("address.noStreet")}
+                            onError={handleError}
+                        />
+                    </FormControl>
+                    <FormMessage />
+                </FormItem>
+            )}
+        />
+    );
+}
@@ -0,0 +1,274 @@
+import * as React from "react"
+import { Check, ChevronsUpDown, Loader2, Plus } from "lucide-react"
+
+import { cn } from "@/lib/utils"
+import useAsyncLookup from "@/lib/utils/UseAsyncLookup"
+import useDebouncedCallback from "@/lib/utils/UseDebouncedCallback"
+import useTranslation from "@/lib/utils/UseTranslation"
+import { Button } from "@/components/ui/button"
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command"
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover"
+
+type AsyncComboboxSelection<T> =
+  | { multiple?: false; value: T | null; onChange: (value: T) => void }
+  | { multiple: true; value: T[]; onChange: (value: T[]) => void }
+
+type AsyncComboboxProps<T> = AsyncComboboxSelection<T> &
+  // Set by FormControl, or by hand outside forms
+  Pick<
+    React.ComponentProps<"button">,
+    "id" | "aria-describedby" | "aria-invalid" | "disabled" | "className"
+  > & {
+    /** Memoize it (useCallback): a new function re-runs the search */
+    search: (query: string, signal: AbortSignal) => Promise<T[]>
+    getKey: (item: T) => string
+    getLabel: (item: T) => string
+    minQueryLength?: number
+    debounceMs?: number
+    /** Searches at least this often while the user keeps typing */
+    maxWaitMs?: number
+    placeholder?: string
+    searchPlaceholder?: string
+    hintText?: React.ReactNode
+    loadingText?: React.ReactNode
+    emptyText?: React.ReactNode
+    renderError?: (error: Error) => React.ReactNode
+    onError?: (error: Error) => void
+    renderItem?: (item: T) => React.ReactNode
+    /** Offers the typed text as a new value when no result has that exact label */
+    onCreate?: (query: string) => void
+    createLabel?: (query: string) => React.ReactNode
+  }
+
+/**
+ * Combobox whose options come from an async search, e.g. a registry lookup.
+ * Superseded searches are aborted (see useAsyncLookup). Arrow keys move
+ * through the options; on the closed trigger, ArrowDown or typing opens it.
+ */
+function AsyncCombobox<T>(props: AsyncComboboxProps<T>) {
+  const {
+    search,
+    getKey,
+    getLabel,
+    minQueryLength = 2,
+    debounceMs = 350,
+    maxWaitMs = 1000,
+    placeholder,
+    searchPlaceholder,
+    hintText,
+    loadingText,
+    emptyText,
+    renderError,
+    onError,
+    renderItem,
+    onCreate,
+    createLabel,
+    id,
+    disabled,
+    className,
+  } = props
+  const { t } = useTranslation()
+  const [open, setOpen] = React.useState(false)
+  const [query, setQuery] = React.useState("")
+  const [debouncedQuery, setDebouncedQuery] = React.useState("")
+  const updateDebouncedQuery = useDebouncedCallback(
+    setDebouncedQuery,
+    debounceMs,
+    { maxWait: Math.max(maxWaitMs, debounceMs) }
+  )
+
+  const changeQuery = (next: string) => {
+    setQuery(next)
+    updateDebouncedQuery(next)
+  }
+
+  const resetQuery = () => {
+    updateDebouncedQuery.cancel()
+    setQuery("")
+    setDebouncedQuery("")
+  }
+
+  const load = React.useMemo(
+    () =>
+      debouncedQuery.trim().length >= minQueryLength
+        ? (signal: AbortSignal) => search(debouncedQuery, signal)
+        : null,
+    [debouncedQuery, minQueryLength, search]
+  )
+  const lookup = useAsyncLookup<T>(load, { onError })
+
+  const selected = props.multiple
+    ? props.value
+    : props.value
+      ? [props.value]
+      : []
+  const selectedKeys = new Set(selected.map(getKey))
+
+  const isQueryLongEnough = query.trim().length >= minQueryLength
+  // The lookup for the typed text hasn't started yet while the debounce runs
+  const isLoading =
+    isQueryLongEnough &&
+    (query !== debouncedQuery || lookup.status === "loading")
+  const results = !isLoading && lookup.status === "success" ? lookup.results : []
+  const canCreate =
+    onCreate !== undefined &&
+    isQueryLongEnough &&
+    !isLoading &&
+    !results.some(
+      (item) =>
+        getLabel(item).trim().toLowerCase() === query.trim().toLowerCase()
+    )
+
+  const handleSelect = (item: T) => {
+    if (props.multiple) {
+      const key = getKey(item)
+      props.onChange(
+        selectedKeys.has(key)
+          ? props.value.filter((value) => getKey(value) !== key)
+          : [...props.value, item]
+      )
+      return // Stay open to pick more
+    }
+    props.onChange(item)
+    setOpen(false)
+    resetQuery()
+  }
+
+  const handleCreate = () => {
+    onCreate?.(query.trim())
+    if (!props.multiple) {
+      setOpen(false)
+    }
+    resetQuery()
+  }
+
+  const handleTriggerKeyDown = (event: React.KeyboardEvent) => {
+    if (open) return
+    if (event.key === "ArrowDown") {
+      event.preventDefault()
+      setOpen(true)
+    } else if (
+      event.key.length === 1 &&
+      event.key !== " " &&
+      !event.ctrlKey &&
+      !event.metaKey &&
+      !event.altKey
+    ) {
+      // Start searching with the typed character
+      event.preventDefault()
+      changeQuery(event.key)
+      setOpen(true)
+    }
+  }
+
+  const handleInputKeyDown = (event: React.KeyboardEvent) => {
+    // Backspace in the empty search removes the last picked value
+    if (props.multiple && event.key === "Backspace" && !query) {
+      props.onChange(props.value.slice(0, -1))
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen} modal={true}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          aria-describedby={props["aria-describedby"]}
+          aria-invalid={props["aria-invalid"]}
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          disabled={disabled}
+          onKeyDown={handleTriggerKeyDown}
+          className={cn(
+            "w-full justify-between text-start font-normal",
+            selected.length === 0 && "text-muted-foreground",
+            className
+          )}
+        >
+          <span className="truncate">
+            {selected.length > 0
+              ? selected.map(getLabel).join(", ")
+              : placeholder}
+          </span>
+          <ChevronsUpDown className="ms-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] max-h-[--radix-popover-content-available-height] p-0">
+        <Command shouldFilter={false} loop>
+          <CommandInput
+            placeholder={searchPlaceholder}
+            value={query}
+            onValueChange={changeQuery}
+            onKeyDown={handleInputKeyDown}
+            // Search for what was typed right away instead of after the delay
+            onBlur={updateDebouncedQuery.flush}
+          />
+          <CommandList>
+            <CommandEmpty>
+              {isLoading ? (
+                <span className="flex items-center justify-center gap-2">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  {loadingText ?? t("common.loading")}
+                </span>
+              ) : !isQueryLongEnough ? (
+                (hintText ?? t("common.typeMoreToSearch"))
+              ) : lookup.status === "error" ? (
+                (renderError?.(lookup.error) ?? t("common.searchFailed"))
+              ) : (
+                (emptyText ?? t("common.noResults"))
+              )}
+            </CommandEmpty>
+            {results.length > 0 && (
+              <CommandGroup>
+                {results.map((item) => {
+                  const key = getKey(item)
+                  return (
+                    <CommandItem
+                      key={key}
+                      value={key}
+                      onSelect={() => handleSelect(item)}
+                    >
+                      <Check
+                        className={cn(
+                          "me-2 h-4 w-4",
+                          selectedKeys.has(key) ? "opacity-100" : "opacity-0"
+                        )}
+                      />
+                      {renderItem ? renderItem(item) : getLabel(item)}
+                    </CommandItem>
+                  )
+                })}
+              </CommandGroup>
+            )}
+            {canCreate && (
+              <CommandGroup>
+                <CommandItem value={`create:${query}`} onSelect={handleCreate}>
+                  <Plus className="me-2 h-4 w-4" />
+                  {createLabel
+                    ? createLabel(query.trim())
+                    : t("common.createValue", { value: query.trim() })}
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+export { AsyncCombobox }
+export type { AsyncComboboxProps }
@@ -12,6 +12,8 @@ import {
 } from "react-hook-form"
 
 import { cn } from "@/lib/utils"
+import { translateErrorMessage } from "@/lib/errorMessages"
+import useLanguage from "@/lib/utils/UseLanguage"
 import { Label } from "@/components/ui/label"
 
 const Form = FormProvider
@@ -135,7 +137,13 @@ function FormDescription({ className, ...props }: React.ComponentProps<"p">) {
 
 function FormMessage({ className, ...props }: React.ComponentProps<"p">) {
   const { error, formMessageId } = useFormField()
-  const body = error ? String(error?.message ?? "") : props.children
+  const { language } = useLanguage()
+  // Schema messages are message IDs; render them in the active UI language
+  const message = error ? String(error?.message ?? "") : props.children
+  const body =
+    typeof message === "string"
+      ? translateErrorMessage(message, language)
+      : message
 
   if (!body) {
     return null
@@ -6,6 +6,21 @@ import type {
     ApiStreet,
     PatientFormData,
 } from "./schema";
+import type { GeoProvider } from "./geoProvider";
+import { rankSearchResults, toSearchKey, toServerQuery } from "./hebrewSearch";
+import { cachedLookup } from "./lookupCache";
+import {
+    isSubmitErrorBody,
+    type SubmitErrorCode,
+    type SubmitFieldError,
+    type SubmitResponseBody,
+    type SubmitSuccessBody,
+} from "./submitContract";
+import {
+    createCircuitBreaker,
+    installResilience,
+    type RetryOptions,
+} from "./httpResilience";
 
 // --- Configuration ---
 // Ensure these environment variables are set in your .env file (e.g., .env.local)
@@ -23,6 +38,40 @@ const STREETS_RESOURCE_ID =
     import.meta.env.VITE_STREETS_RESOURCE_ID ||
     "9ad3862c-8391-4b2f-84a4-2d4c68625f4b";
 
+// The registry's full-text search is loose, so fetch more than we show and rank locally
+const SEARCH_FETCH_LIMIT = 100;
+const SEARCH_RESULT_LIMIT = 20;
+// Page size when loading a city's whole street list (the largest cities have a few thousand)
+const STREET_LIST_PAGE_SIZE = 1000;
+
+// Non-negative number from an env variable, or the default when unset/invalid
+const readNumberEnv = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// Retries for idempotent requests (lookups); see httpResilience.ts
+const API_RETRY_OPTIONS: RetryOptions = {
+    retries: readNumberEnv(import.meta.env.VITE_API_RETRIES, 3),
+    baseDelayMs: readNumberEnv(
+        import.meta.env.VITE_API_RETRY_BASE_DELAY_MS,
+        300
+    ),
+    maxDelayMs: readNumberEnv(
+        import.meta.env.VITE_API_RETRY_MAX_DELAY_MS,
+        5000
+    ),
+};
+// Failed lookups (after retries) in a row before failing fast, and for how long
+const API_CIRCUIT_FAILURE_THRESHOLD = readNumberEnv(
+    import.meta.env.VITE_API_CIRCUIT_FAILURE_THRESHOLD,
+    3
+);
+const API_CIRCUIT_COOLDOWN_MS = readNumberEnv(
+    import.meta.env.VITE_API_CIRCUIT_COOLDOWN_MS,
+    30000
+);
+
 // const ZAPIER_WEBHOOK_URL =
 //     import.meta.env.VITE_ZAPIER_WEBHOOK_URL || "YOUR_ZAPIER_WEBHOOK_URL_HERE"; // Replace default or ensure it's set in .env!
 
@@ -68,8 +117,16 @@ apiClient.interceptors.response.use(
     }
 );
 
-// --- API Fetching Functions ---
+// --- Retries & Circuit Breaker ---
+// While the circuit is open lookups fail fast, and the lookup cache and the
+// geo provider fall back to expired cached or bundled data.
+export const apiCircuit = createCircuitBreaker({
+    failureThreshold: API_CIRCUIT_FAILURE_THRESHOLD,
+    cooldownMs: API_CIRCUIT_COOLDOWN_MS,
+});
+installResilience(apiClient, API_RETRY_OPTIONS, apiCircuit);
 
+// --- API Fetching Functions ---
 /**
  * Fetches cities from data.gov.il based on a query.
  * @param query Search query (min 2 chars).
@@ -77,7 +134,7 @@ apiClient.interceptors.response.use(
  * @returns Promise<ApiCity[]> A list of unique cities matching the query.
  * @throws {Error} Throws an error if the query is too short or if the API call fails.
  */
-export const fetchCities = async (
+const requestCities = async (
     query: string,
     signal?: AbortSignal
 ): Promise<ApiCity[]> => {
@@ -95,8 +152,8 @@ export const fetchCities = async (
             {
                 params: {
                     resource_id: CITIES_RESOURCE_ID,
-                    q: trimmedQuery,
-                    limit: 20, // Consider making limit configurable if needed
+                    q: toServerQuery(trimmedQuery), // Abbreviations expanded, niqqud/quotes/hyphens removed
+                    limit: SEARCH_FETCH_LIMIT,
                 },
                 signal,
             }
@@ -112,7 +169,19 @@ export const fetchCities = async (
                     ])
                 ).values()
             );
-            return uniqueCities;
+            // Prefix matches first; the Hebrew and English names both count
+            return rankSearchResults(
+                uniqueCities.map((city) => ({
+                    keys: [
+                        toSearchKey(city.שם_ישוב),
+                        toSearchKey(city.שם_ישוב_לועזי ?? ""),
+                    ],
+                    record: city,
+                })),
+                trimmedQuery,
+                SEARCH_RESULT_LIMIT,
+                true
+            );
         } else {
             // Throw an error if the API indicates failure
             throw new Error(
@@ -128,7 +197,7 @@ export const fetchCities = async (
     } catch (error) {
         if (axios.isCancel(error)) {
             console.log("City fetch request cancelled");
-            return []; // Return empty array if request was cancelled, common case
+            throw error; // An empty list would be cached as the answer
         }
         // Log the specific error and re-throw a generic or the specific error
         console.error("Error fetching cities:", error);
@@ -147,7 +216,7 @@ export const fetchCities = async (
  * @returns Promise<ApiStreet[]> A list of unique streets matching the query and city code.
  * @throws {Error} Throws an error if query/cityCode are invalid or if the API call fails.
  */
-export const fetchStreets = async (
+const requestStreets = async (
     query: string,
     cityCode: string,
     signal?: AbortSignal
@@ -171,9 +240,9 @@ export const fetchStreets = async (
             {
                 params: {
                     resource_id: STREETS_RESOURCE_ID,
-                    q: trimmedQuery,
+                    q: toServerQuery(trimmedQuery),
                     filters: JSON.stringify({ סמל_ישוב: cityCode }),
-                    limit: 20,
+                    limit: SEARCH_FETCH_LIMIT,
                 },
                 signal,
             }
@@ -189,7 +258,15 @@ export const fetchStreets = async (
                     ])
                 ).values()
             );
-            return uniqueStreets;
+            return rankSearchResults(
+                uniqueStreets.map((street) => ({
+                    keys: [toSearchKey(street.שם_רחוב)],
+                    record: street,
+                })),
+                trimmedQuery,
+                SEARCH_RESULT_LIMIT,
+                true
+            );
         } else {
             // Throw an error if the API indicates failure
             throw new Error(
@@ -205,7 +282,7 @@ export const fetchStreets = async (
     } catch (error) {
         if (axios.isCancel(error)) {
             console.log("Street fetch request cancelled");
-            return []; // Return empty array if request was cancelled
+            throw error; // An empty list would be cached as the answer
         }
         // Log the specific error and re-throw
         console.error("Error fetching streets:", error);
@@ -215,66 +292,475 @@ export const fetchStreets = async (
     }
 };
 
+/**
+ * Fetches every street of a city from data.gov.il, following `_links.next` page by page.
+ * @param cityCode The city code ('סמל_ישוב').
+ * @param signal AbortSignal for cancelling the requests.
+ * @returns Promise<ApiStreet[]> All of the city's streets, unique by street code.
+ * @throws {Error} Throws an error if cityCode is missing or any page fails.
+ */
+const requestAllStreets = async (
+    cityCode: string,
+    signal?: AbortSignal
+): Promise<ApiStreet[]> => {
+    if (!cityCode) {
+        throw new Error("City code is required to fetch streets.");
+    }
+
+    console.log(`Loading all streets for city: ${cityCode}`);
+    try {
+        const records: ApiStreet[] = [];
+        let response = await apiClient.get<ApiResponse<ApiStreet>>(
+            STREETS_API_URL,
+            {
+                params: {
+                    resource_id: STREETS_RESOURCE_ID,
+                    filters: JSON.stringify({ סמל_ישוב: cityCode }),
+                    limit: STREET_LIST_PAGE_SIZE,
+                },
+                signal,
+            }
+        );
+
+        for (;;) {
+            if (!response.data.success) {
+                throw new Error(
+                    `API Error fetching street list: API returned success: false. Response: ${JSON.stringify(
+                        response.data
+                    )}`
+                );
+            }
+            const { records: page, total, _links } = response.data.result;
+            records.push(...page);
+            if (page.length === 0 || records.length >= total || !_links.next) {
+                break;
+            }
+            // `next` is a path on the API host that repeats our filters with the next offset
+            response = await apiClient.get<ApiResponse<ApiStreet>>(
+                new URL(_links.next, STREETS_API_URL).toString(),
+                { signal }
+            );
+        }
+
+        // Ensure uniqueness based on street code ('סמל_רחוב')
+        return Array.from(
+            new Map(records.map((street) => [street["סמל_רחוב"], street])).values()
+        );
+    } catch (error) {
+        if (axios.isCancel(error)) {
+            console.log("Street list request cancelled");
+            throw error; // A partial list must not be mistaken for the whole city
+        }
+        console.error("Error fetching street list:", error);
+        throw error instanceof Error
+            ? error
+            : new Error("Failed to fetch street list");
+    }
+};
+
+/**
+ * Checks whether a city has any street records in the registry.
+ * Many kibbutzim, moshavim and Bedouin villages have none, or only a single
+ * record named after the locality itself; both count as "no streets".
+ * @param cityCode The city code ('סמל_ישוב').
+ * @param cityName The city name ('שם_ישוב'), used to spot the locality-named record.
+ * @param signal AbortSignal for cancelling the request.
+ * @returns Promise<boolean> True if the city has real street records.
+ * @throws {Error} Throws an error if the API call fails.
+ */
+const requestCityHasStreets = async (
+    cityCode: string,
+    cityName: string,
+    signal?: AbortSignal
+): Promise<boolean> => {
+    if (!cityCode) {
+        throw new Error("City code is required to check for streets.");
+    }
+
+    try {
+        const response = await apiClient.get<ApiResponse<ApiStreet>>(
+            STREETS_API_URL,
+            {
+                params: {
+                    resource_id: STREETS_RESOURCE_ID,
+                    filters: JSON.stringify({ סמל_ישוב: cityCode }),
+                    limit: 2, // Enough to tell "none" / "only the locality itself" / "real streets"
+                },
+                signal,
+            }
+        );
+
+        if (!response.data.success) {
+            throw new Error(
+                `API Error checking streets: API returned success: false. Response: ${JSON.stringify(
+                    response.data
+                )}`
+            );
+        }
+
+        const { total, records } = response.data.result;
+        if (total === 0) {
+            return false;
+        }
+        if (total === 1 && records[0]?.שם_רחוב.trim() === cityName.trim()) {
+            return false;
+        }
+        return true;
+    } catch (error) {
+        if (axios.isCancel(error)) {
+            console.log("Street check request cancelled");
+            throw error; // Let the caller ignore it; there is no safe default answer
+        }
+        console.error("Error checking streets for city:", error);
+        throw error instanceof Error
+            ? error
+            : new Error("Failed to check streets for city");
+    }
+};
+
+/**
+ * Fetches a single city from data.gov.il by its code.
+ * @param cityCode The city code ('סמל_ישוב').
+ * @param signal AbortSignal for cancelling the request.
+ * @returns Promise<ApiCity | null> The city, or null if the registry has no such code.
+ * @throws {Error} Throws an error if the API call fails.
+ */
+const requestCityByCode = async (
+    cityCode: string,
+    signal?: AbortSignal
+): Promise<ApiCity | null> => {
+    try {
+        const response = await apiClient.get<ApiResponse<ApiCity>>(
+            CITIES_API_URL,
+            {
+                params: {
+                    resource_id: CITIES_RESOURCE_ID,
+                    filters: JSON.stringify({ סמל_ישוב: cityCode }),
+                    limit: 1,
+                },
+                signal,
+            }
+        );
+
+        if (!response.data.success) {
+            throw new Error(
+                `API Error fetching city: API returned success: false. Response: ${JSON.stringify(
+                    response.data
+                )}`
+            );
+        }
+        return response.data.result.records[0] ?? null;
+    } catch (error) {
+        if (axios.isCancel(error)) {
+            console.log("City by code request cancelled");
+            throw error; // null would be cached as "no such city"
+        }
+        console.error("Error fetching city by code:", error);
+        throw error instanceof Error
+            ? error
+            : new Error("Failed to fetch city");
+    }
+};
+
+/**
+ * Fetches a single street from data.gov.il by its code.
+ * Street codes are only unique within a city, so the city code is required too.
+ * @param cityCode The city code ('סמל_ישוב').
+ * @param streetCode The street code ('סמל_רחוב').
+ * @param signal AbortSignal for cancelling the request.
+ * @returns Promise<ApiStreet | null> The street, or null if the registry has no such code.
+ * @throws {Error} Throws an error if the API call fails.
+ */
+const requestStreetByCode = async (
+    cityCode: string,
+    streetCode: string,
+    signal?: AbortSignal
+): Promise<ApiStreet | null> => {
+    try {
+        const response = await apiClient.get<ApiResponse<ApiStreet>>(
+            STREETS_API_URL,
+            {
+                params: {
+                    resource_id: STREETS_RESOURCE_ID,
+                    filters: JSON.stringify({
+                        סמל_ישוב: cityCode,
+                        סמל_רחוב: streetCode,
+                    }),
+                    limit: 1,
+                },
+                signal,
+            }
+        );
+
+        if (!response.data.success) {
+            throw new Error(
+                `API Error fetching street: API returned success: false. Response: ${JSON.stringify(
+                    response.data
+                )}`
+            );
+        }
+        return response.data.result.records[0] ?? null;
+    } catch (error) {
+        if (axios.isCancel(error)) {
+            console.log("Street by code request cancelled");
+            throw error; // null would be cached as "no such street"
+        }
+        console.error("Error fetching street by code:", error);
+        throw error instanceof Error
+            ? error
+            : new Error("Failed to fetch street");
+    }
+};
+
+// --- Cached Lookups (see lookupCache.ts) ---
+
+/**
+ * Cities matching a query, from the lookup cache or data.gov.il.
+ * @param query Search query (min 2 chars).
+ * @param signal Aborting stops waiting; the request itself is cancelled
+ *   once no caller is waiting for it.
+ * @returns Promise<ApiCity[]> A list of unique cities matching the query.
+ * @throws {Error} Throws an error if the API call fails.
+ */
+export const fetchCities = (
+    query: string,
+    signal?: AbortSignal
+): Promise<ApiCity[]> => {
+    const trimmedQuery = query.trim();
+    if (trimmedQuery.length < 2) {
+        return Promise.resolve([]);
+    }
+    return cachedLookup(
+        "cities",
+        trimmedQuery,
+        (requestSignal) => requestCities(trimmedQuery, requestSignal),
+        signal
+    );
+};
+
+/**
+ * Streets of a city matching a query, from the lookup cache or data.gov.il.
+ * @param query Search query (min 2 chars).
+ * @param cityCode The city code ('סמל_ישוב') to filter streets by.
+ * @param signal Aborting stops waiting; the request itself is cancelled
+ *   once no caller is waiting for it.
+ * @returns Promise<ApiStreet[]> A list of unique streets matching the query and city code.
+ * @throws {Error} Throws an error if cityCode is missing or the API call fails.
+ */
+export const fetchStreets = (
+    query: string,
+    cityCode: string,
+    signal?: AbortSignal
+): Promise<ApiStreet[]> => {
+    const trimmedQuery = query.trim();
+    if (trimmedQuery.length < 2) {
+        return Promise.resolve([]);
+    }
+    if (!cityCode) {
+        return Promise.reject(
+            new Error("City code is required to fetch streets.")
+        );
+    }
+    return cachedLookup(
+        "streets",
+        `${cityCode}:${trimmedQuery}`,
+        (requestSignal) =>
+            requestStreets(trimmedQuery, cityCode, requestSignal),
+        signal
+    );
+};
+
+/**
+ * A city's complete street list, from the lookup cache or data.gov.il.
+ * Loaded once when a city is picked, so street search can filter locally.
+ * @param cityCode The city code ('סמל_ישוב').
+ * @param signal Aborting stops waiting; the request itself is cancelled
+ *   once no caller is waiting for it.
+ * @returns Promise<ApiStreet[]> All of the city's streets.
+ * @throws {Error} Throws an error if cityCode is missing or the API call fails.
+ */
+export const fetchAllStreets = (
+    cityCode: string,
+    signal?: AbortSignal
+): Promise<ApiStreet[]> =>
+    cachedLookup(
+        "streets",
+        `${cityCode}:all`,
+        (requestSignal) => requestAllStreets(cityCode, requestSignal),
+        signal
+    );
+
+/**
+ * Whether a city has real street records, from the lookup cache or data.gov.il.
+ * @param cityCode The city code ('סמל_ישוב').
+ * @param cityName The city name ('שם_ישוב').
+ * @param signal Aborting stops waiting; the request itself is cancelled
+ *   once no caller is waiting for it.
+ * @returns Promise<boolean> True if the city has real street records.
+ * @throws {Error} Throws an error if the API call fails.
+ */
+export const cityHasStreets = (
+    cityCode: string,
+    cityName: string,
+    signal?: AbortSignal
+): Promise<boolean> =>
+    cachedLookup(
+        "streets",
+        `${cityCode}:hasStreets`,
+        (requestSignal) =>
+            requestCityHasStreets(cityCode, cityName, requestSignal),
+        signal
+    );
+
+/**
+ * A single city by its code, from the lookup cache or data.gov.il.
+ * @param cityCode The city code ('סמל_ישוב').
+ * @param signal Aborting stops waiting; the request itself is cancelled
+ *   once no caller is waiting for it.
+ * @returns Promise<ApiCity | null> The city, or null if the registry has no such code.
+ * @throws {Error} Throws an error if the API call fails.
+ */
+export const fetchCityByCode = (
+    cityCode: string,
+    signal?: AbortSignal
+): Promise<ApiCity | null> =>
+    cachedLookup(
+        "cities",
+        `byCode:${cityCode}`,
+        (requestSignal) => requestCityByCode(cityCode, requestSignal),
+        signal
+    );
+
+/**
+ * A single street by its code, from the lookup cache or data.gov.il.
+ * @param cityCode The city code ('סמל_ישוב').
+ * @param streetCode The street code ('סמל_רחוב').
+ * @param signal Aborting stops waiting; the request itself is cancelled
+ *   once no caller is waiting for it.
+ * @returns Promise<ApiStreet | null> The street, or null if the registry has no such code.
+ * @throws {Error} Throws an error if the API call fails.
+ */
+export const fetchStreetByCode = (
+    cityCode: string,
+    streetCode: string,
+    signal?: AbortSignal
+): Promise<ApiStreet | null> =>
+    cachedLookup(
+        "streets",
+        `${cityCode}:byCode:${streetCode}`,
+        (requestSignal) =>
+            requestStreetByCode(cityCode, streetCode, requestSignal),
+        signal
+    );
+
+/** Live data.gov.il lookups, as a GeoProvider (see geoProvider.ts) */
+export const dataGovIlGeoProvider: GeoProvider = {
+    name: "datagovil",
+    searchCities: fetchCities,
+    searchStreets: fetchStreets,
+    listStreets: fetchAllStreets,
+    getCityByCode: fetchCityByCode,
+    getStreetByCode: fetchStreetByCode,
+    cityHasStreets,
+};
+
 // --- Data Submission ---
 
-/** Define a type for a successful Zapier response */
-interface SubmitSuccessResponse {
-    success: boolean;
-    // Include any other data your function might return, e.g., from Zapier
-    zapierData?: unknown;
+/** A failed submission, with the server's error code and per-field errors (see submitContract.ts) */
+export class SubmitError extends Error {
+    readonly code: SubmitErrorCode;
+    readonly fieldErrors: SubmitFieldError[];
+
+    constructor(
+        code: SubmitErrorCode,
+        message: string,
+        fieldErrors: SubmitFieldError[] = []
+    ) {
+        super(message);
+        this.name = "SubmitError";
+        this.code = code;
+        this.fieldErrors = fieldErrors;
+    }
 }
+
 /**
- * Posts validated patient data to a Zapier webhook.
- * @param data The validated patient form data conforming to PatientFormData schema.
- * @returns Promise<ZapierSuccessResponse> The success response data from Zapier.
- * @throws {Error} Throws an error if the submission fails or Zapier indicates failure.
+ * A random UUID naming one submission of the form. Sent as the Idempotency-Key,
+ * so resending it (double click, retry) can't deliver the patient twice.
  */
+export function createSubmissionId(): string {
+    if (typeof crypto.randomUUID === "function") {
+        return crypto.randomUUID();
+    }
+    // randomUUID is missing outside secure contexts (plain http on a LAN address)
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    bytes[6] = (bytes[6] & 0x0f) | 0x40; // Version 4
+    bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122 variant
+    const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0"));
+    return [
+        hex.slice(0, 4),
+        hex.slice(4, 6),
+        hex.slice(6, 8),
+        hex.slice(8, 10),
+        hex.slice(10, 16),
+    ]
+        .map((group) => group.join(""))
+        .join("-");
+}
 
+/**
+ * Posts validated patient data to the submit function, which delivers it to the configured destinations.
+ * @param data The validated patient form data conforming to PatientFormData schema.
+ * @param submissionId From createSubmissionId(); reuse it when resending the same submission.
+ * @returns Promise<SubmitSuccessBody> The success response from the function.
+ * @throws {SubmitError} Throws with the server's code, message and field errors,
+ *   or NETWORK_ERROR / UNEXPECTED_RESPONSE when there is no usable answer.
+ */
 export const postPatientData = async (
-    data: PatientFormData
-): Promise<SubmitSuccessResponse> => {
-    // Updated Return Type
+    data: PatientFormData,
+    submissionId: string
+): Promise<SubmitSuccessBody> => {
     console.log("Submitting data to backend function:", data);
 
     // The path to your new serverless function
     const FUNCTION_URL = "/api/submit-zapier"; // Relative path works with Vercel
 
+    let body: unknown;
     try {
-        // Use your existing apiClient or basic axios/fetch
-        // Change the expected response type to SubmitSuccessResponse
-        const response = await apiClient.post<SubmitSuccessResponse>(
+        const response = await apiClient.post<SubmitResponseBody>(
             FUNCTION_URL,
-            data
+            data,
+            // The function replays its first answer for a key it has seen
+            { headers: { "Idempotency-Key": submissionId } }
         );
-
-        console.log("Backend function response:", response.data);
-
-        // Check the 'success' field from YOUR function's response
-        if (response.data && response.data.success === true) {
-            return response.data;
-        } else {
-            // If your function indicated failure
-            throw new Error(
-                `Backend function failed: ${JSON.stringify(response.data)}`
-            );
-        }
+        body = response.data;
     } catch (error) {
         console.error("Error submitting data to backend function:", error);
-        if (error instanceof AxiosError) {
-            console.error(
-                "Axios error details:",
-                error.response?.data || error.message
-            );
-            throw new Error(
-                `Failed to submit data: ${
-                    error.response?.data?.error || error.message
-                }`
+        if (!(error instanceof AxiosError) || !error.response) {
+            throw new SubmitError(
+                "NETWORK_ERROR",
+                error instanceof Error ? error.message : String(error)
             );
         }
-        throw error instanceof Error
-            ? error
-            : new Error("Failed to submit data via backend function");
+        body = error.response.data; // Error statuses still carry the contract's body
+    }
+
+    console.log("Backend function response:", body);
+    if (isSubmitErrorBody(body)) {
+        throw new SubmitError(body.code, body.message, body.fieldErrors);
+    }
+    if (
+        typeof body === "object" &&
+        body !== null &&
+        (body as SubmitSuccessBody).success === true
+    ) {
+        return body as SubmitSuccessBody;
     }
+    throw new SubmitError(
+        "UNEXPECTED_RESPONSE",
+        `Backend function returned an unexpected response: ${JSON.stringify(
+            body
+        )}`
+    );
 };
 
 // --- Removed Debounce Utility ---
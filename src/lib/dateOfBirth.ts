@@ -0,0 +1,111 @@
+// src/lib/dateOfBirth.ts
+
+/** Patients younger than this need a guardian. */
+export const ADULT_AGE = 18;
+/** Oldest date of birth we accept, in years before today. */
+export const MAX_AGE = 120;
+/**
+ * "Today" is the clinic's date, so the form and the submit function (which
+ * runs in UTC) agree on it whatever time zone each of them is in.
+ */
+export const CLINIC_TIME_ZONE = "Asia/Jerusalem";
+
+const clinicDateFormat = new Intl.DateTimeFormat("en-US", {
+    timeZone: CLINIC_TIME_ZONE,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+});
+
+/**
+ * The current calendar date in CLINIC_TIME_ZONE.
+ * @param now The moment to read the date at (defaults to now).
+ * @returns That date at local midnight, comparable with parseIsoDate() results.
+ */
+export function getClinicToday(now: Date = new Date()): Date {
+    const parts = Object.fromEntries(
+        clinicDateFormat
+            .formatToParts(now)
+            .map((part) => [part.type, Number(part.value)])
+    );
+    return new Date(parts.year, parts.month - 1, parts.day);
+}
+
+/**
+ * Parses a "YYYY-MM-DD" date (the value of an <input type="date">) as a local date.
+ * @param value The date string.
+ * @returns The date at local midnight, or null if the string isn't a real calendar date.
+ */
+export function parseIsoDate(value: string): Date | null {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (!match) {
+        return null;
+    }
+    const [year, month, day] = match.slice(1).map(Number);
+    const date = new Date(year, month - 1, day);
+    // Reject dates the Date constructor silently rolls over (e.g. 2023-02-30)
+    if (
+        date.getFullYear() !== year ||
+        date.getMonth() !== month - 1 ||
+        date.getDate() !== day
+    ) {
+        return null;
+    }
+    return date;
+}
+
+/** Formats a date as "YYYY-MM-DD" in local time. */
+export function toIsoDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Computes age in full years.
+ * @param dateOfBirth "YYYY-MM-DD" date of birth.
+ * @param today Reference date (defaults to the clinic's today).
+ * @returns The age, or null if the date is invalid or in the future.
+ */
+export function getAgeInYears(
+    dateOfBirth: string,
+    today: Date = getClinicToday()
+): number | null {
+    const dob = parseIsoDate(dateOfBirth);
+    if (!dob || dob > today) {
+        return null;
+    }
+    let age = today.getFullYear() - dob.getFullYear();
+    const hadBirthdayThisYear =
+        today.getMonth() > dob.getMonth() ||
+        (today.getMonth() === dob.getMonth() &&
+            today.getDate() >= dob.getDate());
+    if (!hadBirthdayThisYear) {
+        age--;
+    }
+    return age;
+}
+
+/**
+ * @param dateOfBirth "YYYY-MM-DD" date of birth.
+ * @returns True if the date is valid and the patient is younger than ADULT_AGE.
+ */
+export function isMinor(
+    dateOfBirth: string,
+    today: Date = getClinicToday()
+): boolean {
+    const age = getAgeInYears(dateOfBirth, today);
+    return age !== null && age < ADULT_AGE;
+}
+
+/**
+ * Earliest and latest accepted dates of birth, for the date input's min/max.
+ */
+export function getDateOfBirthBounds(today: Date = getClinicToday()): {
+    min: string;
+    max: string;
+} {
+    const earliest = new Date(today);
+    earliest.setFullYear(today.getFullYear() - MAX_AGE);
+    return { min: toIsoDate(earliest), max: toIsoDate(today) };
+}
@@ -0,0 +1,485 @@
+// src/lib/errorMessages.ts
+import { z } from "zod";
+import { DEFAULT_LANGUAGE, type Language } from "./i18n.js";
+import type { SubmitErrorCode } from "./submitContract.js";
+
+// --- Message Catalog ---
+// Schema rules report a message ID (plus optional params) instead of text;
+// FormMessage translates it into the active UI language when it renders.
+// Placeholders like {index} are filled from the params.
+const en = {
+    "common.required": "This field is required",
+    "common.invalidOption": "Please select a valid option",
+    "common.invalidValue": "Invalid value",
+
+    "person.firstNameRequired": "First name is required",
+    "person.lastNameRequired": "Last name is required",
+
+    "identifier.typeRequired": "Identifier type is required",
+    "identifier.israeliIdLength": "ID must be 5 to 9 digits",
+    "identifier.israeliIdCheckDigit":
+        "Invalid Israeli ID number (check the last digit, expected {expected})",
+    "identifier.passportInvalid":
+        "Passport number must be 5-20 letters or digits",
+    "identifier.issuingCountryInvalid":
+        "Issuing country must be a 3-letter code",
+    "identifier.foreignIdInvalid":
+        "Foreign ID must be 4-20 letters, digits or dashes",
+    "identifier.temporaryInvalid": "Temporary number must be 6-10 digits",
+
+    "dob.required": "Date of birth is required",
+    "dob.invalid": "Invalid date of birth",
+    "dob.future": "Date of birth cannot be in the future",
+    "dob.tooOld": "Date of birth cannot be more than {maxAge} years ago",
+
+    "hmo.required": "HMO is required",
+
+    "phone.typeRequired": "Phone type is required",
+    "phone.countryRequired": "Country is required",
+    "phone.numberRequired": "Phone number is required",
+    "phone.invalidIsraeli": "Invalid Israeli phone number format",
+    "phone.invalidForCountry": "Invalid phone number for {country}",
+    "phone.atLeastOne": "At least one phone number is required",
+    "phone.mainRequired": "One phone number must be marked as main.",
+    "phone.onlyOneMain": "Only one phone can be main.",
+    "phone.duplicate": "Same number as phone #{index}.",
+    "phone.mobileLandline":
+        "Landline number (02/03/04/08/09) can't be of type Mobile.",
+
+    "address.typeRequired": "Address type is required",
+    "address.cityRequired": "City selection is required",
+    "address.cityNameRequired": "City name is required",
+    "address.streetRequired": "Street selection is required",
+    "address.streetNameRequired": "Street name is required",
+    "address.streetNumberRequired": "Street number is required",
+    "address.streetNumberInvalid":
+        "Street number must be a number, optionally followed by a Hebrew letter (e.g. 12א)",
+    "address.entranceInvalid": "Entrance must be a single letter or number",
+    "address.floorInvalid":
+        "Floor must be a whole number (negative for basement)",
+    "address.apartmentInvalid": "Apartment must be up to 6 letters or digits",
+    "address.postalCodeInvalid": "Postal code must be exactly 7 digits",
+    "address.commentsTooLong": "Comments too long",
+    "address.lineTooShort": "Address line is too short",
+    "address.lineTooLong": "Address line is too long",
+    "address.poBoxInvalid": "PO box must be up to 6 digits",
+    "address.lineOrPoBoxRequired": "Enter an address line or a PO box",
+    "address.atLeastOne": "At least one address is required",
+    "address.onlyOneHome":
+        "Only one address can be Home (already set on address #{index}).",
+
+    "guardian.relationshipRequired": "Relationship is required",
+    "guardian.required": "A guardian is required for patients under {adultAge}",
+
+    "contact.nameRequired": "Contact name is required",
+    "contact.relationshipRequired": "Relationship is required",
+    "contact.requiredForMinor":
+        "At least one emergency contact is required for patients under {adultAge}",
+    "contact.duplicatesMainPhone":
+        "Contact phone must differ from the patient's main phone",
+
+    // Submit API errors, by SubmitErrorCode (see submitErrorMessage)
+    "submit.methodNotAllowed":
+        "The server did not accept this kind of request.",
+    "submit.validationFailed":
+        "The server found errors in the form. Please correct the marked fields.",
+    "submit.serverMisconfigured":
+        "The server is not set up to receive submissions. Please contact support.",
+    "submit.deliveryFailed":
+        "The submission could not be delivered to every destination.",
+    "submit.requestInProgress": "This submission is still being processed.",
+    "submit.idempotencyKeyReused":
+        "This submission conflicts with an earlier one. Please submit again.",
+    "submit.networkError":
+        "Could not reach the server. Please check the connection.",
+    "submit.unexpectedResponse": "The server sent an unexpected response.",
+    "submit.failed": "The submission failed.",
+
+    "outbox.unreadable": "The saved data can't be decrypted.",
+} as const;
+
+export type ErrorMessageId = keyof typeof en;
+
+const he: Record<ErrorMessageId, string> = {
+    "common.required": "שדה חובה",
+    "common.invalidOption": "יש לבחור אפשרות תקינה",
+    "common.invalidValue": "ערך לא תקין",
+
+    "person.firstNameRequired": "יש להזין שם פרטי",
+    "person.lastNameRequired": "יש להזין שם משפחה",
+
+    "identifier.typeRequired": "יש לבחור סוג מזהה",
+    "identifier.israeliIdLength": "מספר זהות חייב להכיל 5 עד 9 ספרות",
+    "identifier.israeliIdCheckDigit":
+        "מספר זהות לא תקין (בדקו את הספרה האחרונה, צפויה {expected})",
+    "identifier.passportInvalid": "מספר דרכון חייב להכיל 5-20 אותיות או ספרות",
+    "identifier.issuingCountryInvalid": "מדינה מנפיקה חייבת להיות קוד בן 3 אותיות",
+    "identifier.foreignIdInvalid":
+        "מספר זהות זר חייב להכיל 4-20 אותיות, ספרות או מקפים",
+    "identifier.temporaryInvalid": "מספר זמני חייב להכיל 6-10 ספרות",
+
+    "dob.required": "יש להזין תאריך לידה",
+    "dob.invalid": "תאריך לידה לא תקין",
+    "dob.future": "תאריך לידה לא יכול להיות בעתיד",
+    "dob.tooOld": "תאריך לידה לא יכול להיות לפני יותר מ-{maxAge} שנים",
+
+    "hmo.required": "יש לבחור קופת חולים",
+
+    "phone.typeRequired": "יש לבחור סוג טלפון",
+    "phone.countryRequired": "יש לבחור מדינה",
+    "phone.numberRequired": "יש להזין מספר טלפון",
+    "phone.invalidIsraeli": "מספר טלפון ישראלי לא תקין",
+    "phone.invalidForCountry": "מספר טלפון לא תקין עבור {country}",
+    "phone.atLeastOne": "יש להזין לפחות מספר טלפון אחד",
+    "phone.mainRequired": "יש לסמן מספר טלפון אחד כראשי.",
+    "phone.onlyOneMain": "רק מספר טלפון אחד יכול להיות ראשי.",
+    "phone.duplicate": "מספר זהה לטלפון מס' {index}.",
+    "phone.mobileLandline": "מספר קווי (02/03/04/08/09) לא יכול להיות מסוג נייד.",
+
+    "address.typeRequired": "יש לבחור סוג כתובת",
+    "address.cityRequired": "יש לבחור יישוב",
+    "address.cityNameRequired": "יש להזין שם יישוב",
+    "address.streetRequired": "יש לבחור רחוב",
+    "address.streetNameRequired": "יש להזין שם רחוב",
+    "address.streetNumberRequired": "יש להזין מספר בית",
+    "address.streetNumberInvalid":
+        "מספר בית חייב להיות מספר, ואחריו אות עברית אופציונלית (למשל 12א)",
+    "address.entranceInvalid": "כניסה חייבת להיות אות או מספר בודדים",
+    "address.floorInvalid": "קומה חייבת להיות מספר שלם (שלילי למרתף)",
+    "address.apartmentInvalid": "דירה יכולה להכיל עד 6 אותיות או ספרות",
+    "address.postalCodeInvalid": "מיקוד חייב להכיל בדיוק 7 ספרות",
+    "address.commentsTooLong": "ההערות ארוכות מדי",
+    "address.lineTooShort": "שורת הכתובת קצרה מדי",
+    "address.lineTooLong": "שורת הכתובת ארוכה מדי",
+    "address.poBoxInvalid": "תא דואר יכול להכיל עד 6 ספרות",
+    "address.lineOrPoBoxRequired": "יש להזין שורת כתובת או תא דואר",
+    "address.atLeastOne": "יש להזין לפחות כתובת אחת",
+    "address.onlyOneHome":
+        "רק כתובת אחת יכולה להיות מסוג בית (כבר נבחרה בכתובת מס' {index}).",
+
+    "guardian.relationshipRequired": "יש לבחור קרבה",
+    "guardian.required": "מטופלים מתחת לגיל {adultAge} חייבים אפוטרופוס",
+
+    "contact.nameRequired": "יש להזין שם איש קשר",
+    "contact.relationshipRequired": "יש לבחור קרבה",
+    "contact.requiredForMinor":
+        "מטופלים מתחת לגיל {adultAge} חייבים לפחות איש קשר אחד לחירום",
+    "contact.duplicatesMainPhone":
+        "טלפון איש הקשר חייב להיות שונה מהטלפון הראשי של המטופל",
+
+    "submit.methodNotAllowed": "השרת לא קיבל בקשה מסוג זה.",
+    "submit.validationFailed":
+        "השרת מצא שגיאות בטופס. יש לתקן את השדות המסומנים.",
+    "submit.serverMisconfigured":
+        "השרת אינו מוגדר לקבלת טפסים. יש לפנות לתמיכה.",
+    "submit.deliveryFailed": "לא ניתן היה להעביר את הטופס לכל היעדים.",
+    "submit.requestInProgress": "הטופס עדיין בטיפול.",
+    "submit.idempotencyKeyReused": "הטופס מתנגש עם שליחה קודמת. יש לשלוח שוב.",
+    "submit.networkError": "לא ניתן להתחבר לשרת. יש לבדוק את החיבור.",
+    "submit.unexpectedResponse": "התקבלה תשובה לא צפויה מהשרת.",
+    "submit.failed": "שליחת הטופס נכשלה.",
+
+    "outbox.unreadable": "לא ניתן לפענח את הנתונים השמורים.",
+};
+
+const ar: Record<ErrorMessageId, string> = {
+    "common.required": "هذا الحقل مطلوب",
+    "common.invalidOption": "يرجى اختيار خيار صالح",
+    "common.invalidValue": "قيمة غير صالحة",
+
+    "person.firstNameRequired": "الاسم الشخصي مطلوب",
+    "person.lastNameRequired": "اسم العائلة مطلوب",
+
+    "identifier.typeRequired": "نوع المعرّف مطلوب",
+    "identifier.israeliIdLength": "يجب أن يتكون رقم الهوية من 5 إلى 9 أرقام",
+    "identifier.israeliIdCheckDigit":
+        "رقم هوية غير صالح (تحقق من الرقم الأخير، المتوقع {expected})",
+    "identifier.passportInvalid":
+        "يجب أن يتكون رقم جواز السفر من 5-20 حرفًا أو رقمًا",
+    "identifier.issuingCountryInvalid":
+        "يجب أن تكون الدولة المُصدِرة رمزًا من 3 أحرف",
+    "identifier.foreignIdInvalid":
+        "يجب أن يتكون رقم الهوية الأجنبية من 4-20 حرفًا أو رقمًا أو شرطة",
+    "identifier.temporaryInvalid": "يجب أن يتكون الرقم المؤقت من 6-10 أرقام",
+
+    "dob.required": "تاريخ الميلاد مطلوب",
+    "dob.invalid": "تاريخ ميلاد غير صالح",
+    "dob.future": "لا يمكن أن يكون تاريخ الميلاد في المستقبل",
+    "dob.tooOld": "لا يمكن أن يكون تاريخ الميلاد قبل أكثر من {maxAge} سنة",
+
+    "hmo.required": "صندوق المرضى مطلوب",
+
+    "phone.typeRequired": "نوع الهاتف مطلوب",
+    "phone.countryRequired": "الدولة مطلوبة",
+    "phone.numberRequired": "رقم الهاتف مطلوب",
+    "phone.invalidIsraeli": "صيغة رقم هاتف إسرائيلي غير صالحة",
+    "phone.invalidForCountry": "رقم هاتف غير صالح لـ {country}",
+    "phone.atLeastOne": "مطلوب رقم هاتف واحد على الأقل",
+    "phone.mainRequired": "يجب تحديد رقم هاتف واحد كرقم رئيسي.",
+    "phone.onlyOneMain": "يمكن أن يكون هاتف واحد فقط رئيسيًا.",
+    "phone.duplicate": "الرقم مطابق للهاتف رقم {index}.",
+    "phone.mobileLandline":
+        "رقم الهاتف الأرضي (02/03/04/08/09) لا يمكن أن يكون من نوع محمول.",
+
+    "address.typeRequired": "نوع العنوان مطلوب",
+    "address.cityRequired": "يجب اختيار البلدة",
+    "address.cityNameRequired": "اسم البلدة مطلوب",
+    "address.streetRequired": "يجب اختيار الشارع",
+    "address.streetNameRequired": "اسم الشارع مطلوب",
+    "address.streetNumberRequired": "رقم البيت مطلوب",
+    "address.streetNumberInvalid":
+        "يجب أن يكون رقم البيت رقمًا، يليه اختياريًا حرف عبري (مثال: 12א)",
+    "address.entranceInvalid": "يجب أن يكون المدخل حرفًا أو رقمًا واحدًا",
+    "address.floorInvalid": "يجب أن يكون الطابق عددًا صحيحًا (سالبًا للطابق السفلي)",
+    "address.apartmentInvalid": "يمكن أن تحتوي الشقة على 6 أحرف أو أرقام كحد أقصى",
+    "address.postalCodeInvalid": "يجب أن يتكون الرمز البريدي من 7 أرقام بالضبط",
+    "address.commentsTooLong": "الملاحظات طويلة جدًا",
+    "address.lineTooShort": "سطر العنوان قصير جدًا",
+    "address.lineTooLong": "سطر العنوان طويل جدًا",
+    "address.poBoxInvalid": "يمكن أن يحتوي صندوق البريد على 6 أرقام كحد أقصى",
+    "address.lineOrPoBoxRequired": "أدخل سطر عنوان أو صندوق بريد",
+    "address.atLeastOne": "مطلوب عنوان واحد على الأقل",
+    "address.onlyOneHome":
+        "يمكن أن يكون عنوان واحد فقط من نوع منزل (محدد بالفعل في العنوان رقم {index}).",
+
+    "guardian.relationshipRequired": "صلة القرابة مطلوبة",
+    "guardian.required": "الوصي مطلوب للمرضى دون سن {adultAge}",
+
+    "contact.nameRequired": "اسم جهة الاتصال مطلوب",
+    "contact.relationshipRequired": "صلة القرابة مطلوبة",
+    "contact.requiredForMinor":
+        "مطلوب جهة اتصال واحدة على الأقل للطوارئ للمرضى دون سن {adultAge}",
+    "contact.duplicatesMainPhone":
+        "يجب أن يختلف هاتف جهة الاتصال عن الهاتف الرئيسي للمريض",
+
+    "submit.methodNotAllowed": "لم يقبل الخادم هذا النوع من الطلبات.",
+    "submit.validationFailed":
+        "وجد الخادم أخطاء في النموذج. يرجى تصحيح الحقول المحددة.",
+    "submit.serverMisconfigured":
+        "الخادم غير مهيأ لاستقبال النماذج. يرجى التواصل مع الدعم.",
+    "submit.deliveryFailed": "تعذّر تسليم النموذج إلى جميع الجهات.",
+    "submit.requestInProgress": "لا يزال النموذج قيد المعالجة.",
+    "submit.idempotencyKeyReused":
+        "يتعارض هذا النموذج مع إرسال سابق. يرجى الإرسال مرة أخرى.",
+    "submit.networkError": "تعذّر الاتصال بالخادم. يرجى التحقق من الاتصال.",
+    "submit.unexpectedResponse": "أرسل الخادم ردًا غير متوقع.",
+    "submit.failed": "فشل إرسال النموذج.",
+
+    "outbox.unreadable": "تعذّر فك تشفير البيانات المحفوظة.",
+};
+
+const ru: Record<ErrorMessageId, string> = {
+    "common.required": "Обязательное поле",
+    "common.invalidOption": "Выберите допустимый вариант",
+    "common.invalidValue": "Недопустимое значение",
+
+    "person.firstNameRequired": "Укажите имя",
+    "person.lastNameRequired": "Укажите фамилию",
+
+    "identifier.typeRequired": "Выберите тип документа",
+    "identifier.israeliIdLength": "Номер удостоверения должен содержать от 5 до 9 цифр",
+    "identifier.israeliIdCheckDigit":
+        "Неверный номер удостоверения (проверьте последнюю цифру, ожидается {expected})",
+    "identifier.passportInvalid":
+        "Номер паспорта должен содержать 5-20 букв или цифр",
+    "identifier.issuingCountryInvalid":
+        "Страна выдачи должна быть трёхбуквенным кодом",
+    "identifier.foreignIdInvalid":
+        "Иностранный номер должен содержать 4-20 букв, цифр или дефисов",
+    "identifier.temporaryInvalid": "Временный номер должен содержать 6-10 цифр",
+
+    "dob.required": "Укажите дату рождения",
+    "dob.invalid": "Неверная дата рождения",
+    "dob.future": "Дата рождения не может быть в будущем",
+    "dob.tooOld": "Дата рождения не может быть более {maxAge} лет назад",
+
+    "hmo.required": "Выберите больничную кассу",
+
+    "phone.typeRequired": "Выберите тип телефона",
+    "phone.countryRequired": "Выберите страну",
+    "phone.numberRequired": "Укажите номер телефона",
+    "phone.invalidIsraeli": "Неверный формат израильского номера",
+    "phone.invalidForCountry": "Неверный номер телефона для страны: {country}",
+    "phone.atLeastOne": "Укажите хотя бы один номер телефона",
+    "phone.mainRequired": "Отметьте один номер как основной.",
+    "phone.onlyOneMain": "Основным может быть только один номер.",
+    "phone.duplicate": "Совпадает с телефоном №{index}.",
+    "phone.mobileLandline":
+        "Стационарный номер (02/03/04/08/09) не может иметь тип «Мобильный».",
+
+    "address.typeRequired": "Выберите тип адреса",
+    "address.cityRequired": "Выберите населённый пункт",
+    "address.cityNameRequired": "Укажите название населённого пункта",
+    "address.streetRequired": "Выберите улицу",
+    "address.streetNameRequired": "Укажите название улицы",
+    "address.streetNumberRequired": "Укажите номер дома",
+    "address.streetNumberInvalid":
+        "Номер дома должен быть числом, за которым может следовать буква иврита (например, 12א)",
+    "address.entranceInvalid": "Подъезд: одна буква или число",
+    "address.floorInvalid": "Этаж должен быть целым числом (отрицательным для подвала)",
+    "address.apartmentInvalid": "Квартира: не более 6 букв или цифр",
+    "address.postalCodeInvalid": "Почтовый индекс должен содержать ровно 7 цифр",
+    "address.commentsTooLong": "Слишком длинный комментарий",
+    "address.lineTooShort": "Слишком короткая строка адреса",
+    "address.lineTooLong": "Слишком длинная строка адреса",
+    "address.poBoxInvalid": "Абонентский ящик: не более 6 цифр",
+    "address.lineOrPoBoxRequired": "Укажите строку адреса или абонентский ящик",
+    "address.atLeastOne": "Укажите хотя бы один адрес",
+    "address.onlyOneHome":
+        "Только один адрес может быть домашним (уже указан в адресе №{index}).",
+
+    "guardian.relationshipRequired": "Укажите степень родства",
+    "guardian.required": "Для пациентов младше {adultAge} лет нужен опекун",
+
+    "contact.nameRequired": "Укажите имя контактного лица",
+    "contact.relationshipRequired": "Укажите степень родства",
+    "contact.requiredForMinor":
+        "Для пациентов младше {adultAge} лет нужен хотя бы один экстренный контакт",
+    "contact.duplicatesMainPhone":
+        "Телефон контакта должен отличаться от основного телефона пациента",
+
+    "submit.methodNotAllowed": "Сервер не принимает такой запрос.",
+    "submit.validationFailed":
+        "Сервер нашёл ошибки в форме. Исправьте отмеченные поля.",
+    "submit.serverMisconfigured":
+        "Сервер не настроен для приёма форм. Обратитесь в поддержку.",
+    "submit.deliveryFailed":
+        "Не удалось доставить форму во все пункты назначения.",
+    "submit.requestInProgress": "Форма ещё обрабатывается.",
+    "submit.idempotencyKeyReused":
+        "Форма конфликтует с предыдущей отправкой. Отправьте её снова.",
+    "submit.networkError": "Нет связи с сервером. Проверьте подключение.",
+    "submit.unexpectedResponse": "Сервер прислал неожиданный ответ.",
+    "submit.failed": "Не удалось отправить форму.",
+
+    "outbox.unreadable": "Сохранённые данные не удаётся расшифровать.",
+};
+
+const catalogs: Record<Language, Record<ErrorMessageId, string>> = {
+    en,
+    he,
+    ar,
+    ru,
+};
+
+// --- Encoding (what the schema stores in a zod issue's message) ---
+type ErrorMessageParams = Record<string, string | number>;
+
+const PARAMS_SEPARATOR = "|";
+
+/**
+ * Builds the message string for a zod issue: the message ID, followed by
+ * JSON-encoded params when there are any (e.g. `phone.duplicate|{"index":1}`).
+ * RHF only keeps an issue's message, so the params have to travel inside it.
+ */
+export function errorMessage(
+    id: ErrorMessageId,
+    params?: ErrorMessageParams
+): string {
+    return params
+        ? `${id}${PARAMS_SEPARATOR}${JSON.stringify(params)}`
+        : id;
+}
+
+const SUBMIT_ERROR_MESSAGE_IDS: Record<SubmitErrorCode, ErrorMessageId> = {
+    METHOD_NOT_ALLOWED: "submit.methodNotAllowed",
+    VALIDATION_FAILED: "submit.validationFailed",
+    SERVER_MISCONFIGURED: "submit.serverMisconfigured",
+    DELIVERY_FAILED: "submit.deliveryFailed",
+    REQUEST_IN_PROGRESS: "submit.requestInProgress",
+    IDEMPOTENCY_KEY_REUSED: "submit.idempotencyKeyReused",
+    NETWORK_ERROR: "submit.networkError",
+    UNEXPECTED_RESPONSE: "submit.unexpectedResponse",
+};
+
+/**
+ * The message for a submit API error code, built with errorMessage() so it is
+ * shown in the active UI language (the server's own message is English).
+ */
+export function submitErrorMessage(code: SubmitErrorCode): string {
+    return errorMessage(SUBMIT_ERROR_MESSAGE_IDS[code]);
+}
+
+function isErrorMessageId(value: string): value is ErrorMessageId {
+    return Object.prototype.hasOwnProperty.call(en, value);
+}
+
+function parseErrorMessage(
+    message: string
+): { id: ErrorMessageId; params: ErrorMessageParams } | null {
+    const separatorIndex = message.indexOf(PARAMS_SEPARATOR);
+    const id =
+        separatorIndex === -1 ? message : message.slice(0, separatorIndex);
+    if (!isErrorMessageId(id)) {
+        return null;
+    }
+    if (separatorIndex === -1) {
+        return { id, params: {} };
+    }
+    try {
+        return { id, params: JSON.parse(message.slice(separatorIndex + 1)) };
+    } catch {
+        return { id, params: {} };
+    }
+}
+
+/**
+ * Renders an error message in the given language.
+ * Strings that aren't message IDs (e.g. from a server) are returned unchanged.
+ * @param message A message built with errorMessage(), or any other text.
+ * @param language The UI language to render in.
+ * @returns The human-readable message.
+ */
+export function translateErrorMessage(
+    message: string,
+    language: Language = DEFAULT_LANGUAGE
+): string {
+    const parsed = parseErrorMessage(message);
+    if (!parsed) {
+        return message;
+    }
+    const template = catalogs[language][parsed.id] ?? en[parsed.id];
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+        const value = parsed.params[name];
+        if (value === undefined) {
+            return placeholder;
+        }
+        // Country params are ISO codes; show the country's name in the UI language
+        if (name === "country" && typeof value === "string") {
+            return (
+                new Intl.DisplayNames([language], { type: "region" }).of(
+                    value
+                ) ?? value
+            );
+        }
+        return String(value);
+    });
+}
+
+// --- Zod Error Map (zod's built-in issues, e.g. a missing field) ---
+/**
+ * Maps zod's built-in issues to message IDs so they get translated as well.
+ * Messages set explicitly in the schema (including required_error) take precedence.
+ */
+export const patientErrorMap: z.ZodErrorMap = (issue, ctx) => {
+    // A schema's own required_error/invalid_type_error arrives as the default; keep it
+    if (parseErrorMessage(ctx.defaultError)) {
+        return { message: ctx.defaultError };
+    }
+    switch (issue.code) {
+        case z.ZodIssueCode.invalid_type:
+            return {
+                message: errorMessage(
+                    issue.received === "undefined" || issue.received === "null"
+                        ? "common.required"
+                        : "common.invalidValue"
+                ),
+            };
+        case z.ZodIssueCode.invalid_enum_value:
+        case z.ZodIssueCode.invalid_literal:
+        case z.ZodIssueCode.invalid_union_discriminator:
+            return { message: errorMessage("common.invalidOption") };
+        default:
+            return { message: errorMessage("common.invalidValue") };
+    }
+};
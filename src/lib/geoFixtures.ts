@@ -0,0 +1,51 @@
+// src/lib/geoFixtures.ts
+import { createSnapshotGeoProvider, type GeoSnapshotFile } from "./geoSnapshot";
+
+// --- In-Memory Fixture Geography ---
+// A few localities for local development, demos and tests, selected with
+// VITE_GEO_PROVIDER=fixture. The four big cities use their registry codes;
+// all other codes and _id values are made up. Covers both address modes: cities
+// with streets, a locality whose only "street" is its own name, and one with none.
+export const GEO_FIXTURE: GeoSnapshotFile = {
+    version: 1,
+    generatedAt: "2025-01-01T00:00:00.000Z",
+    cities: [
+        [1, "9000", "באר שבע", "BEER SHEVA"],
+        [2, "4000", "חיפה", "HAIFA"],
+        [3, "3000", "ירושלים", "JERUSALEM"],
+        [4, "2042", "עין גדי", "EN GEDI"],
+        [5, "1345", "צופר", "ZOFAR"],
+        [6, "5000", "תל אביב - יפו", "TEL AVIV - YAFO"],
+    ],
+    streets: {
+        "9000": [
+            [101, "101", "דרך חברון"],
+            [102, "102", "הנשיאים"],
+            [103, "103", "רגר"],
+        ],
+        "4000": [
+            [201, "201", "דרך הים"],
+            [202, "202", "הנביאים"],
+            [203, "203", "מוריה"],
+        ],
+        "3000": [
+            [301, "301", "בן יהודה"],
+            [302, "302", "יפו"],
+            [303, "303", "קרן היסוד"],
+            [304, "304", "רחביה"],
+        ],
+        "2042": [[401, "401", "עין גדי"]],
+        "5000": [
+            [501, "501", "אבן גבירול"],
+            [502, "502", "אלנבי"],
+            [503, "503", "דיזנגוף"],
+            [504, "504", "הרצל"],
+            [505, "505", "רוטשילד"],
+        ],
+    },
+};
+
+export const fixtureGeoProvider = createSnapshotGeoProvider(
+    "fixture",
+    async () => GEO_FIXTURE
+);
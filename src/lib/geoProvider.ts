@@ -0,0 +1,133 @@
+// src/lib/geoProvider.ts
+import axios from "axios";
+import type { ApiCity, ApiStreet } from "./schema";
+import { dataGovIlGeoProvider } from "./api";
+import { snapshotGeoProvider } from "./geoSnapshot";
+import { fixtureGeoProvider } from "./geoFixtures";
+
+// --- Geography Provider ---
+// Everything the form needs to look up cities and streets. Components use
+// `geoProvider` only, so the data source can be swapped without touching them.
+
+export const GEO_PROVIDER_NAMES = ["datagovil", "snapshot", "fixture"] as const;
+export type GeoProviderName = (typeof GEO_PROVIDER_NAMES)[number];
+
+export interface GeoProvider {
+    name: GeoProviderName;
+    /** Cities whose name matches the query (min 2 chars, shorter returns []) */
+    searchCities(query: string, signal?: AbortSignal): Promise<ApiCity[]>;
+    /** Streets of one city whose name matches the query (min 2 chars, shorter returns []) */
+    searchStreets(
+        query: string,
+        cityCode: string,
+        signal?: AbortSignal
+    ): Promise<ApiStreet[]>;
+    /** Every street of one city, for searching locally once a city is picked */
+    listStreets(cityCode: string, signal?: AbortSignal): Promise<ApiStreet[]>;
+    getCityByCode(
+        cityCode: string,
+        signal?: AbortSignal
+    ): Promise<ApiCity | null>;
+    /** Street codes are only unique within a city, hence both codes */
+    getStreetByCode(
+        cityCode: string,
+        streetCode: string,
+        signal?: AbortSignal
+    ): Promise<ApiStreet | null>;
+    /** False when the city has no streets, or only one named after the locality itself */
+    cityHasStreets(
+        cityCode: string,
+        cityName: string,
+        signal?: AbortSignal
+    ): Promise<boolean>;
+}
+
+export const DEFAULT_GEO_PROVIDER: GeoProviderName = "snapshot";
+
+function isGeoProviderName(value: unknown): value is GeoProviderName {
+    return GEO_PROVIDER_NAMES.some((name) => name === value);
+}
+
+// The caller gave up (superseded search): not a failure to fall back from
+const isAbortError = (error: unknown) =>
+    axios.isCancel(error) ||
+    (error instanceof Error && error.name === "AbortError");
+
+/**
+ * Wraps a provider so every lookup that fails on it is retried on a fallback.
+ * Used to keep the form working before the snapshot file has been generated,
+ * and on the bundled snapshot while data.gov.il is down (its circuit is open).
+ * Cancelled lookups are passed on as they are, never retried.
+ */
+function withFallback(primary: GeoProvider, fallback: GeoProvider): GeoProvider {
+    const attempt =
+        <Args extends unknown[], Result>(
+            run: (provider: GeoProvider, ...args: Args) => Promise<Result>
+        ) =>
+        async (...args: Args): Promise<Result> => {
+            try {
+                return await run(primary, ...args);
+            } catch (error) {
+                const signal = args.find(
+                    (arg): arg is AbortSignal => arg instanceof AbortSignal
+                );
+                if (signal?.aborted || isAbortError(error)) {
+                    throw error;
+                }
+                return run(fallback, ...args);
+            }
+        };
+
+    return {
+        name: primary.name,
+        searchCities: attempt((p, query: string, signal?: AbortSignal) =>
+            p.searchCities(query, signal)
+        ),
+        searchStreets: attempt(
+            (p, query: string, cityCode: string, signal?: AbortSignal) =>
+                p.searchStreets(query, cityCode, signal)
+        ),
+        listStreets: attempt((p, cityCode: string, signal?: AbortSignal) =>
+            p.listStreets(cityCode, signal)
+        ),
+        getCityByCode: attempt((p, cityCode: string, signal?: AbortSignal) =>
+            p.getCityByCode(cityCode, signal)
+        ),
+        getStreetByCode: attempt(
+            (p, cityCode: string, streetCode: string, signal?: AbortSignal) =>
+                p.getStreetByCode(cityCode, streetCode, signal)
+        ),
+        cityHasStreets: attempt(
+            (p, cityCode: string, cityName: string, signal?: AbortSignal) =>
+                p.cityHasStreets(cityCode, cityName, signal)
+        ),
+    };
+}
+
+/**
+ * Picks the provider named by VITE_GEO_PROVIDER ("datagovil", "snapshot" or
+ * "fixture"), defaulting to the bundled snapshot with data.gov.il as fallback.
+ * Live data.gov.il lookups fall back to the snapshot in turn.
+ */
+function createGeoProvider(): GeoProvider {
+    const configured = import.meta.env.VITE_GEO_PROVIDER;
+    if (configured && !isGeoProviderName(configured)) {
+        console.warn(
+            `Unknown VITE_GEO_PROVIDER "${configured}", using "${DEFAULT_GEO_PROVIDER}".`
+        );
+    }
+    const name = isGeoProviderName(configured)
+        ? configured
+        : DEFAULT_GEO_PROVIDER;
+
+    switch (name) {
+        case "datagovil":
+            return withFallback(dataGovIlGeoProvider, snapshotGeoProvider);
+        case "fixture":
+            return fixtureGeoProvider;
+        case "snapshot":
+            return withFallback(snapshotGeoProvider, dataGovIlGeoProvider);
+    }
+}
+
+export const geoProvider: GeoProvider = createGeoProvider();
@@ -0,0 +1,200 @@
+// src/lib/geoSnapshot.ts
+import type { ApiCity, ApiStreet } from "./schema";
+import type { GeoProvider, GeoProviderName } from "./geoProvider";
+import { rankSearchResults, toSearchKey, type SearchEntry } from "./hebrewSearch";
+
+// --- Bundled City/Street Snapshot ---
+// Built from data.gov.il by `npm run geo:snapshot` and served as a static file,
+// so lookups keep working when the registry API is slow or the network is down.
+const GEO_SNAPSHOT_URL =
+    import.meta.env.VITE_GEO_SNAPSHOT_URL || "/geo-snapshot.json";
+const SNAPSHOT_VERSION = 1;
+const SEARCH_LIMIT = 20; // Same page size as the live API lookups
+// A snapshot that failed to load isn't requested again before this much time
+// has passed; lookups meanwhile fail fast (and go to the fallback provider)
+const LOAD_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// Compact on-disk format: tuples instead of objects, streets grouped by city code
+export type SnapshotRecord = [id: number, code: string, name: string];
+export type SnapshotCityRecord = [...SnapshotRecord, englishName?: string];
+
+export interface GeoSnapshotFile {
+    version: number;
+    generatedAt: string;
+    cities: SnapshotCityRecord[]; // Sorted by name
+    streets: Record<string, SnapshotRecord[]>; // City code -> streets sorted by name
+}
+
+// In-memory search index built once from the file, keys normalized by toSearchKey
+interface GeoIndex {
+    generatedAt: string;
+    cities: SearchEntry<ApiCity>[];
+    rawStreets: Record<string, SnapshotRecord[]>;
+    streetsByCity: Map<string, SearchEntry<ApiStreet>[]>; // Filled lazily per city
+}
+
+function buildIndex(file: GeoSnapshotFile): GeoIndex {
+    const cities = file.cities.map(([id, code, name, englishName]) => ({
+        // Hebrew and English names, so "Tel Aviv" finds תל אביב - יפו
+        keys: [toSearchKey(name), toSearchKey(englishName ?? "")],
+        record: {
+            _id: id,
+            סמל_ישוב: code,
+            שם_ישוב: name,
+            ...(englishName && { שם_ישוב_לועזי: englishName }),
+        },
+    }));
+    return {
+        generatedAt: file.generatedAt,
+        cities,
+        rawStreets: file.streets,
+        streetsByCity: new Map(),
+    };
+}
+
+/**
+ * Loads a snapshot and builds its search index on first use.
+ * A failed load is remembered for LOAD_RETRY_DELAY_MS, so a missing file
+ * isn't downloaded again on every keystroke; after that it is tried again.
+ * @param loadFile Reads the snapshot file.
+ * @returns A function resolving to the ready-to-search index.
+ */
+function createIndexLoader(
+    loadFile: () => Promise<GeoSnapshotFile>
+): () => Promise<GeoIndex> {
+    let indexPromise: Promise<GeoIndex> | null = null;
+    let failedAt: number | null = null;
+    return () => {
+        if (
+            indexPromise &&
+            failedAt !== null &&
+            Date.now() - failedAt >= LOAD_RETRY_DELAY_MS
+        ) {
+            indexPromise = null;
+            failedAt = null;
+        }
+        if (!indexPromise) {
+            indexPromise = loadFile().then((file) => {
+                if (file.version !== SNAPSHOT_VERSION) {
+                    throw new Error(
+                        `Unsupported geography snapshot version: ${file.version}`
+                    );
+                }
+                return buildIndex(file);
+            });
+            indexPromise.catch(() => {
+                failedAt = Date.now();
+            });
+        }
+        return indexPromise;
+    };
+}
+
+function getCityStreets(index: GeoIndex, cityCode: string) {
+    let entries = index.streetsByCity.get(cityCode);
+    if (!entries) {
+        entries = (index.rawStreets[cityCode] ?? []).map(
+            ([id, code, name]) => ({
+                keys: [toSearchKey(name)],
+                record: {
+                    _id: id,
+                    סמל_רחוב: code,
+                    שם_רחוב: name,
+                    סמל_ישוב: cityCode,
+                },
+            })
+        );
+        index.streetsByCity.set(cityCode, entries);
+    }
+    return entries;
+}
+
+const findCity = (index: GeoIndex, cityCode: string) =>
+    index.cities.find((entry) => entry.record.סמל_ישוב === String(cityCode))
+        ?.record ?? null;
+
+/**
+ * Creates a GeoProvider that searches a snapshot entirely in memory.
+ * Used for the bundled file and for the fixture data (geoFixtures.ts).
+ * @param name Provider name reported in logs and status.
+ * @param loadFile Reads the snapshot; called once, again only a while after a failure.
+ * @returns GeoProvider Lookups that reject only if the snapshot can't be loaded.
+ */
+export function createSnapshotGeoProvider(
+    name: GeoProviderName,
+    loadFile: () => Promise<GeoSnapshotFile>
+): GeoProvider {
+    const loadIndex = createIndexLoader(loadFile);
+
+    return {
+        name,
+        searchCities: async (query) => {
+            if (query.trim().length < 2) {
+                return [];
+            }
+            const index = await loadIndex();
+            return rankSearchResults(index.cities, query, SEARCH_LIMIT);
+        },
+        searchStreets: async (query, cityCode) => {
+            if (query.trim().length < 2) {
+                return [];
+            }
+            if (!cityCode) {
+                throw new Error("City code is required to fetch streets.");
+            }
+            const index = await loadIndex();
+            return rankSearchResults(
+                getCityStreets(index, String(cityCode)),
+                query,
+                SEARCH_LIMIT
+            );
+        },
+        listStreets: async (cityCode) => {
+            if (!cityCode) {
+                throw new Error("City code is required to fetch streets.");
+            }
+            const index = await loadIndex();
+            return getCityStreets(index, String(cityCode)).map(
+                (entry) => entry.record
+            );
+        },
+        getCityByCode: async (cityCode) => findCity(await loadIndex(), cityCode),
+        getStreetByCode: async (cityCode, streetCode) => {
+            const index = await loadIndex();
+            return (
+                getCityStreets(index, String(cityCode)).find(
+                    (entry) => entry.record.סמל_רחוב === String(streetCode)
+                )?.record ?? null
+            );
+        },
+        cityHasStreets: async (cityCode, cityName) => {
+            const index = await loadIndex();
+            const streets = index.rawStreets[String(cityCode)] ?? [];
+            if (streets.length === 0) {
+                return false;
+            }
+            // Same rule as the live check: a single record named after the locality is no street
+            return !(streets.length === 1 && streets[0][2] === cityName.trim());
+        },
+    };
+}
+
+/** The bundled snapshot served from GEO_SNAPSHOT_URL */
+export const snapshotGeoProvider = createSnapshotGeoProvider(
+    "snapshot",
+    async () => {
+        const response = await fetch(GEO_SNAPSHOT_URL);
+        if (!response.ok) {
+            throw new Error(
+                `Geography snapshot unavailable (HTTP ${response.status})`
+            );
+        }
+        // A missing file behind an SPA rewrite comes back as index.html with a 200
+        if (!response.headers.get("Content-Type")?.includes("json")) {
+            throw new Error(
+                `Geography snapshot unavailable (not JSON at ${GEO_SNAPSHOT_URL}; run \`npm run geo:snapshot\`)`
+            );
+        }
+        return (await response.json()) as GeoSnapshotFile;
+    }
+);
@@ -0,0 +1,219 @@
+// src/lib/hebrewSearch.ts
+
+// --- Hebrew-Aware Matching for City/Street Search ---
+// "תל אביב", "תל-אביב", "ת"א" and "Tel Aviv" should all find תל אביב - יפו.
+// Names and queries go through the same normalization, then candidates are
+// ranked: exact, prefix, word prefix, substring, words in any order, one typo.
+
+// Cantillation marks and vowel points; the maqaf (U+05BE) is handled as a hyphen
+const NIQQUD = /[\u0591-\u05BD\u05BF-\u05C7]/g;
+// Accents left on Latin letters after NFD (e.g. transliterations like "Be'er Sheva")
+const COMBINING_MARKS = /[\u0300-\u036F]/g;
+const GERSHAYIM = /[\u05F4\u201C\u201D\u201E]/g; // ״ and curly double quotes
+const GERESH = /[\u05F3\u2018\u2019`\u00B4]/g; // ׳ and curly single quotes
+const QUOTES = /['"]/g;
+const SEPARATORS = /[\u05BE\-\u2010-\u2015_.,;:/\\()]+/g; // Maqaf, dashes, punctuation
+const FINAL_LETTERS: Record<string, string> = {
+    ך: "כ",
+    ם: "מ",
+    ן: "נ",
+    ף: "פ",
+    ץ: "צ",
+};
+
+// Common abbreviations, written with plain ' and " (see unifyPunctuation)
+const ABBREVIATIONS: Record<string, string> = {
+    'ת"א': "תל אביב",
+    "י-ם": "ירושלים",
+    'ב"ש': "באר שבע",
+    'פ"ת': "פתח תקווה",
+    'ראשל"צ': "ראשון לציון",
+    'ר"ג': "רמת גן",
+    'ב"ב': "בני ברק",
+    'כ"ס': "כפר סבא",
+    'ק"ש': "קריית שמונה",
+    'ק"ג': "קריית גת",
+    'ק"א': "קריית אתא",
+    'ק"ב': "קריית ביאליק",
+    "ק'": "קריית",
+    "שד'": "שדרות",
+    "שכ'": "שכונת",
+    "רח'": "", // "רח' הרצל" is just "הרצל"
+};
+
+// Match score per rank; lower is better
+const Score = {
+    Exact: 0,
+    Prefix: 1,
+    WordPrefix: 2,
+    Substring: 3,
+    AllWords: 4,
+    OneTypo: 5,
+    ServerOnly: 6, // Returned by the API but not matched here (see rankSearchResults)
+} as const;
+
+/** A candidate for ranking: its search keys (see toSearchKey) and the value to return */
+export interface SearchEntry<T> {
+    keys: string[];
+    record: T;
+}
+
+// Curly quotes and Hebrew geresh/gershayim become ' and ", the maqaf becomes -
+function unifyPunctuation(value: string): string {
+    return value
+        .replace(GERSHAYIM, '"')
+        .replace(GERESH, "'")
+        .replace(/\u05BE/g, "-");
+}
+
+/**
+ * Expands known abbreviations (ת"א, ב"ש, רח', ...) into the registry's words.
+ * @param value A name or query.
+ * @returns The text with whole-word abbreviations replaced.
+ */
+export function expandAbbreviations(value: string): string {
+    return unifyPunctuation(value)
+        .split(/\s+/)
+        .map(
+            (word) =>
+                ABBREVIATIONS[word] ??
+                // Also inside hyphenated words, e.g. ת"א-יפו
+                word
+                    .split("-")
+                    .map((part) => ABBREVIATIONS[part] ?? part)
+                    .join("-")
+        )
+        .join(" ");
+}
+
+/**
+ * Cleans a query for the data.gov.il full-text search: abbreviations expanded,
+ * niqqud, quotes and hyphens removed. Final letters are kept, as the registry has them.
+ * @param query The query as typed.
+ * @returns The query to send as `q`.
+ */
+export function toServerQuery(query: string): string {
+    return expandAbbreviations(query.normalize("NFC"))
+        .replace(NIQQUD, "")
+        .replace(QUOTES, "")
+        .replace(SEPARATORS, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+/**
+ * Normalizes a name or query for matching: abbreviations expanded, niqqud and
+ * accents removed, quotes dropped, hyphens as spaces, final letters folded,
+ * doubled ו/י collapsed (full vs. defective spelling) and Latin lower-cased.
+ * @param value A city/street name or a search query.
+ * @returns The comparison key.
+ */
+export function toSearchKey(value: string): string {
+    return expandAbbreviations(value.normalize("NFD"))
+        .replace(NIQQUD, "")
+        .replace(COMBINING_MARKS, "")
+        .replace(QUOTES, "")
+        .replace(SEPARATORS, " ")
+        .toLowerCase()
+        .replace(/[ךםןףץ]/g, (letter) => FINAL_LETTERS[letter])
+        .replace(/וו/g, "ו")
+        .replace(/יי/g, "י")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+// True if a can be turned into b by at most one insertion, deletion or substitution
+function withinOneEdit(a: string, b: string): boolean {
+    if (Math.abs(a.length - b.length) > 1) return false;
+    let i = 0;
+    let j = 0;
+    let edits = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            i++;
+            j++;
+            continue;
+        }
+        if (++edits > 1) return false;
+        if (a.length > b.length) i++;
+        else if (a.length < b.length) j++;
+        else {
+            i++;
+            j++;
+        }
+    }
+    return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+// A query word of 4+ letters may have one typo against the start of a name word
+function isFuzzyWordPrefix(queryWord: string, nameWord: string): boolean {
+    if (nameWord.startsWith(queryWord)) return true;
+    if (queryWord.length < 4) return false;
+    return [-1, 0, 1].some((delta) =>
+        withinOneEdit(queryWord, nameWord.slice(0, queryWord.length + delta))
+    );
+}
+
+function scoreKey(key: string, query: string, queryWords: string[]) {
+    if (key === query) return Score.Exact;
+    if (key.startsWith(query)) return Score.Prefix;
+    if (key.includes(` ${query}`)) return Score.WordPrefix;
+    if (key.includes(query)) return Score.Substring;
+    const keyWords = key.split(" ");
+    if (queryWords.every((q) => keyWords.some((k) => k.startsWith(q)))) {
+        return Score.AllWords;
+    }
+    if (queryWords.every((q) => keyWords.some((k) => isFuzzyWordPrefix(q, k)))) {
+        return Score.OneTypo;
+    }
+    return null;
+}
+
+/**
+ * Ranks candidates against a query; ties keep their original order.
+ * @param entries Candidates with precomputed search keys.
+ * @param query The query as typed.
+ * @param limit Maximum number of results.
+ * @param keepUnmatched Keep entries that match no rule, after all matches.
+ *   Used for API results, which the server already judged relevant.
+ * @returns The best matching records, best first.
+ */
+export function rankSearchResults<T>(
+    entries: SearchEntry<T>[],
+    query: string,
+    limit: number,
+    keepUnmatched = false
+): T[] {
+    const normalizedQuery = toSearchKey(query);
+    if (!normalizedQuery) {
+        return [];
+    }
+    const queryWords = normalizedQuery.split(" ");
+
+    const scored: { score: number; length: number; order: number; record: T }[] =
+        [];
+    entries.forEach((entry, order) => {
+        let best: number | null = null;
+        let length = Infinity;
+        for (const key of entry.keys) {
+            if (!key) continue;
+            const score = scoreKey(key, normalizedQuery, queryWords);
+            if (score !== null && (best === null || score < best)) {
+                best = score;
+                length = key.length;
+            }
+        }
+        if (best === null && keepUnmatched) {
+            best = Score.ServerOnly;
+        }
+        if (best !== null) {
+            scored.push({ score: best, length, order, record: entry.record });
+        }
+    });
+
+    // Within a rank, shorter names first ("חיפה" before "חיפה - נמל")
+    scored.sort(
+        (a, b) => a.score - b.score || a.length - b.length || a.order - b.order
+    );
+    return scored.slice(0, limit).map((item) => item.record);
+}
@@ -0,0 +1,243 @@
+// src/lib/httpResilience.ts
+import axios, {
+    type AxiosError,
+    type AxiosInstance,
+    type GenericAbortSignal,
+    type InternalAxiosRequestConfig,
+} from "axios";
+
+// --- Retry & Circuit Breaker for an Axios Instance ---
+// data.gov.il has the odd 5xx or timeout. Idempotent requests are retried with
+// exponential backoff and full jitter. After repeated failures the circuit
+// opens: requests fail fast with CircuitOpenError until a cooldown has passed,
+// then a single trial request decides whether to close it again.
+
+declare module "axios" {
+    interface AxiosRequestConfig {
+        retryAttempt?: number; // Set on retries; survives axios' config merging
+    }
+}
+
+export interface RetryOptions {
+    retries: number; // Retries after the first attempt; 0 disables retrying
+    baseDelayMs: number; // Delay cap before the first retry, doubled per retry
+    maxDelayMs: number; // Upper bound for any single delay
+}
+
+export interface CircuitBreakerOptions {
+    failureThreshold: number; // Consecutive failed requests that open the circuit
+    cooldownMs: number; // How long to fail fast before the trial request
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreaker {
+    getState(): CircuitState;
+    /** Calls the listener on every state change; returns the unsubscribe function */
+    subscribe(listener: () => void): () => void;
+    /** False while open, or half-open with the trial request already out */
+    tryAcquire(): boolean;
+    recordSuccess(): void;
+    recordFailure(): void;
+    /** A request ended without a verdict (cancelled); frees the trial slot */
+    release(): void;
+}
+
+/** Thrown instead of sending a request while the circuit is open */
+export class CircuitOpenError extends Error {
+    constructor() {
+        super("Service temporarily unavailable, not sending the request.");
+        this.name = "CircuitOpenError";
+    }
+}
+
+const IDEMPOTENT_METHODS = ["get", "head", "options"];
+// Timeouts, rate limiting and server errors; any other status is a real answer
+const RETRYABLE_STATUSES = [408, 429];
+
+/**
+ * Creates a circuit breaker. Open -> half-open happens on a timer, so
+ * subscribers (e.g. a status indicator) see the change without new requests.
+ * @param options Failure threshold and cooldown.
+ * @returns The breaker, starting closed.
+ */
+export function createCircuitBreaker({
+    failureThreshold,
+    cooldownMs,
+}: CircuitBreakerOptions): CircuitBreaker {
+    let state: CircuitState = "closed";
+    let failures = 0;
+    let trialInFlight = false;
+    let cooldownTimer: ReturnType<typeof setTimeout> | undefined;
+    const listeners = new Set<() => void>();
+
+    const setState = (next: CircuitState) => {
+        if (state === next) return;
+        state = next;
+        listeners.forEach((listener) => listener());
+    };
+
+    const open = () => {
+        clearTimeout(cooldownTimer);
+        setState("open");
+        cooldownTimer = setTimeout(() => setState("half-open"), cooldownMs);
+    };
+
+    return {
+        getState: () => state,
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+        tryAcquire() {
+            if (state === "closed") return true;
+            if (state === "half-open" && !trialInFlight) {
+                trialInFlight = true;
+                return true;
+            }
+            return false;
+        },
+        recordSuccess() {
+            failures = 0;
+            trialInFlight = false;
+            clearTimeout(cooldownTimer);
+            setState("closed");
+        },
+        recordFailure() {
+            trialInFlight = false;
+            failures++;
+            // A failed trial re-opens at once
+            if (state === "half-open" || failures >= failureThreshold) {
+                open();
+            }
+        },
+        release() {
+            trialInFlight = false;
+        },
+    };
+}
+
+function isIdempotent(config: InternalAxiosRequestConfig) {
+    return IDEMPOTENT_METHODS.includes((config.method ?? "get").toLowerCase());
+}
+
+// No response at all (network error, timeout) or a status worth another try
+function isRetryable(error: AxiosError) {
+    const status = error.response?.status;
+    return (
+        status === undefined ||
+        RETRYABLE_STATUSES.includes(status) ||
+        status >= 500
+    );
+}
+
+/**
+ * Full jitter: a random delay up to the exponential cap, so clients don't retry in lockstep.
+ * @param attempt Retries made so far (0 before the first).
+ * @param options Base delay, doubled per attempt, and the upper bound.
+ * @returns Delay in milliseconds.
+ */
+export function getBackoffDelay(
+    attempt: number,
+    {
+        baseDelayMs,
+        maxDelayMs,
+    }: Pick<RetryOptions, "baseDelayMs" | "maxDelayMs">
+) {
+    return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+}
+
+// A Retry-After header in seconds wins, within maxDelayMs
+function getRetryDelay(
+    attempt: number,
+    error: AxiosError,
+    options: RetryOptions
+) {
+    const retryAfterSeconds = Number(error.response?.headers["retry-after"]);
+    if (Number.isFinite(retryAfterSeconds) && retryAfterSeconds >= 0) {
+        return Math.min(retryAfterSeconds * 1000, options.maxDelayMs);
+    }
+    return getBackoffDelay(attempt, options);
+}
+
+// Resolves early when aborted; the retried request then fails as cancelled
+function wait(ms: number, signal?: GenericAbortSignal) {
+    return new Promise<void>((resolve) => {
+        if (signal?.aborted) {
+            resolve();
+            return;
+        }
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener?.(
+            "abort",
+            () => {
+                clearTimeout(timer);
+                resolve();
+            },
+            { once: true }
+        );
+    });
+}
+
+/**
+ * Adds retrying and the circuit breaker to an axios instance. Both apply to
+ * idempotent requests only; submissions are never repeated behind the user's back.
+ * @param client The axios instance.
+ * @param retry Retry count and backoff delays.
+ * @param breaker Breaker shared by all of the client's idempotent requests.
+ */
+export function installResilience(
+    client: AxiosInstance,
+    retry: RetryOptions,
+    breaker: CircuitBreaker
+) {
+    client.interceptors.request.use((config) => {
+        // Retries belong to a request that was already let through
+        if (
+            isIdempotent(config) &&
+            config.retryAttempt === undefined &&
+            !breaker.tryAcquire()
+        ) {
+            throw new CircuitOpenError();
+        }
+        return config;
+    });
+
+    client.interceptors.response.use(
+        (response) => {
+            if (isIdempotent(response.config)) {
+                breaker.recordSuccess();
+            }
+            return response;
+        },
+        async (error: unknown) => {
+            if (axios.isCancel(error)) {
+                breaker.release();
+                throw error;
+            }
+            if (
+                !axios.isAxiosError(error) ||
+                !error.config ||
+                !isIdempotent(error.config)
+            ) {
+                throw error;
+            }
+            if (!isRetryable(error)) {
+                breaker.recordSuccess(); // The server is up, it just said no (e.g. 404)
+                throw error;
+            }
+
+            const config = error.config;
+            const attempt = config.retryAttempt ?? 0;
+            if (attempt >= retry.retries) {
+                breaker.recordFailure();
+                throw error;
+            }
+            await wait(getRetryDelay(attempt, error, retry), config.signal);
+            config.retryAttempt = attempt + 1;
+            return client.request(config);
+        }
+    );
+}
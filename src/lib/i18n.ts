@@ -0,0 +1,42 @@
+// src/lib/i18n.ts
+// No React here: the submit function imports this through errorMessages.ts.
+// The context lives in languageContext.ts.
+
+// --- Supported UI Languages ---
+export const LANGUAGES = [
+    { code: "he", name: "עברית", dir: "rtl" },
+    { code: "ar", name: "العربية", dir: "rtl" },
+    { code: "en", name: "English", dir: "ltr" },
+    { code: "ru", name: "Русский", dir: "ltr" },
+] as const;
+
+export type Language = (typeof LANGUAGES)[number]["code"];
+export type TextDirection = (typeof LANGUAGES)[number]["dir"];
+
+export const DEFAULT_LANGUAGE: Language = "en";
+export const LANGUAGE_STORAGE_KEY = "patient-form.language";
+
+export function isLanguage(value: unknown): value is Language {
+    return LANGUAGES.some((language) => language.code === value);
+}
+
+export function getLanguageDirection(language: Language): TextDirection {
+    return LANGUAGES.find((l) => l.code === language)?.dir ?? "ltr";
+}
+
+/**
+ * Picks the initial UI language: the last one chosen on this device,
+ * else the browser's language if we support it, else DEFAULT_LANGUAGE.
+ */
+export function detectInitialLanguage(): Language {
+    try {
+        const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+        if (isLanguage(stored)) {
+            return stored;
+        }
+    } catch {
+        // Storage may be unavailable (private mode, sandboxed iframe)
+    }
+    const browserLanguage = navigator.language?.split("-")[0];
+    return isLanguage(browserLanguage) ? browserLanguage : DEFAULT_LANGUAGE;
+}
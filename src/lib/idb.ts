@@ -0,0 +1,112 @@
+// src/lib/idb.ts
+
+// --- IndexedDB Helpers ---
+// One database for everything the app keeps in the browser; each feature gets
+// its own object store. Add new stores to STORES and bump DB_VERSION.
+const DB_NAME = "patient-form";
+const DB_VERSION = 2;
+
+export const STORES = {
+    lookupCache: "lookupCache", // City/street lookup results (lookupCache.ts)
+    outbox: "outbox", // Encrypted submissions waiting to be resent (outbox.ts)
+    cryptoKeys: "cryptoKeys", // Non-extractable CryptoKeys, e.g. the outbox's
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/** False in old browsers, some private modes and non-browser runtimes */
+export const isIndexedDbAvailable = () => typeof indexedDB !== "undefined";
+
+/**
+ * Wraps an IDBRequest in a promise.
+ * @param request Any IndexedDB request.
+ * @returns Promise resolving to the request's result.
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Opens (and on first use creates or upgrades) the app's database.
+ * A failed open is not cached, so the next call tries again. The connection
+ * is closed when another tab needs to upgrade the database, and reopened
+ * (at the new version) on the next call.
+ * @returns Promise<IDBDatabase> The open database.
+ * @throws {Error} Throws if IndexedDB is unavailable (old browser, private mode),
+ *   or if an upgrade is blocked by another tab still on an older version.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (!isIndexedDbAvailable()) {
+                reject(new Error("IndexedDB is not available"));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                for (const store of Object.values(STORES)) {
+                    if (!db.objectStoreNames.contains(store)) {
+                        db.createObjectStore(store);
+                    }
+                }
+            };
+            // Another tab holds the old version open and didn't close it.
+            // Fail now rather than hang every caller until that tab closes.
+            let blocked = false;
+            request.onblocked = () => {
+                blocked = true;
+                reject(
+                    new Error(
+                        "IndexedDB upgrade is blocked by another open tab"
+                    )
+                );
+            };
+            request.onsuccess = () => {
+                const db = request.result;
+                if (blocked) {
+                    // The other tab closed after we gave up on this open
+                    db.close();
+                    return;
+                }
+                // Let a newer version in another tab upgrade; reopen on next use
+                db.onversionchange = () => {
+                    db.close();
+                    dbPromise = null;
+                };
+                // Closed by the browser (storage cleared, disk error)
+                db.onclose = () => {
+                    dbPromise = null;
+                };
+                resolve(db);
+            };
+            request.onerror = () => reject(request.error);
+        });
+        dbPromise.catch(() => {
+            dbPromise = null;
+        });
+    }
+    return dbPromise;
+}
+
+/**
+ * Runs one request against a store in its own transaction.
+ * @param storeName The object store.
+ * @param mode "readonly" or "readwrite".
+ * @param run Builds the request from the store.
+ * @returns Promise resolving to the request's result.
+ */
+export async function withStore<T>(
+    storeName: StoreName,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+    const db = await openDatabase();
+    const store = db.transaction(storeName, mode).objectStore(storeName);
+    return promisifyRequest(run(store));
+}
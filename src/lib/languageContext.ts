@@ -0,0 +1,14 @@
+// src/lib/languageContext.ts
+import { createContext } from "react";
+import { DEFAULT_LANGUAGE, type Language } from "./i18n";
+
+// --- React Context (provided by LanguageProvider, read with useLanguage) ---
+export interface LanguageContextValue {
+    language: Language;
+    setLanguage: (language: Language) => void;
+}
+
+export const LanguageContext = createContext<LanguageContextValue>({
+    language: DEFAULT_LANGUAGE,
+    setLanguage: () => {},
+});
@@ -0,0 +1,204 @@
+// src/lib/lookupCache.ts
+import { STORES, isIndexedDbAvailable, withStore } from "./idb";
+
+// --- Lookup Cache ---
+// Sits under the data.gov.il lookups in api.ts: a small in-memory LRU in front
+// of IndexedDB, so remounts, extra address rows and page reloads reuse answers.
+// Identical lookups already on the wire share one promise. Expired entries are
+// kept until replaced: when a lookup fails (e.g. the API circuit is open), the
+// last known answer is served instead.
+
+export type LookupResource = "cities" | "streets";
+
+const HOUR = 60 * 60 * 1000;
+// The registry changes rarely; streets a bit more often than localities
+const LOOKUP_TTL_MS: Record<LookupResource, number> = {
+    cities: 7 * 24 * HOUR,
+    streets: 24 * HOUR,
+};
+const MEMORY_MAX_ENTRIES = 200;
+
+interface CacheEntry {
+    value: unknown;
+    expiresAt: number; // Epoch ms
+}
+
+// Map keeps insertion order: re-inserting on read makes the first key the least recently used
+const memory = new Map<string, CacheEntry>();
+// Identical lookups already on the wire, with how many callers still wait for each
+interface InFlightLookup {
+    promise: Promise<unknown>;
+    controller: AbortController; // Aborted once every waiting caller has given up
+    waiters: number;
+}
+const inFlight = new Map<string, InFlightLookup>();
+// Bumped by clearLookupCache so lookups started before it don't write stale results back
+let generation = 0;
+
+function rememberInMemory(key: string, entry: CacheEntry) {
+    memory.delete(key);
+    memory.set(key, entry);
+    while (memory.size > MEMORY_MAX_ENTRIES) {
+        memory.delete(memory.keys().next().value!);
+    }
+}
+
+const isFresh = (entry: CacheEntry) => entry.expiresAt > Date.now();
+
+function readFromMemory(
+    key: string,
+    allowExpired = false
+): CacheEntry | undefined {
+    const entry = memory.get(key);
+    if (!entry || (!allowExpired && !isFresh(entry))) return undefined;
+    rememberInMemory(key, entry); // Mark as recently used
+    return entry;
+}
+
+// The persistent tier is best-effort: any IndexedDB failure just counts as a miss
+async function readPersisted(
+    key: string,
+    allowExpired = false
+): Promise<CacheEntry | undefined> {
+    if (!isIndexedDbAvailable()) {
+        return undefined;
+    }
+    try {
+        const entry = await withStore<CacheEntry | undefined>(
+            STORES.lookupCache,
+            "readonly",
+            (store) => store.get(key)
+        );
+        if (entry && (allowExpired || isFresh(entry))) {
+            return entry;
+        }
+    } catch (error) {
+        console.warn("Lookup cache read failed:", error);
+    }
+    return undefined;
+}
+
+function writePersisted(key: string, entry: CacheEntry) {
+    if (!isIndexedDbAvailable()) {
+        return;
+    }
+    withStore(STORES.lookupCache, "readwrite", (store) =>
+        store.put(entry, key)
+    ).catch((error) => console.warn("Lookup cache write failed:", error));
+}
+
+// Lets one caller stop waiting; the shared request is cancelled when the last one does
+function waitFor<T>(lookup: InFlightLookup, signal?: AbortSignal): Promise<T> {
+    const promise = lookup.promise as Promise<T>;
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    lookup.waiters++;
+    if (!signal) return promise; // Waits to the end
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+            reject(signal.reason);
+            if (--lookup.waiters === 0) {
+                lookup.controller.abort();
+            }
+        };
+        signal.addEventListener("abort", onAbort, { once: true });
+        promise.then(resolve, reject).finally(() =>
+            signal.removeEventListener("abort", onAbort)
+        );
+    });
+}
+
+/**
+ * Returns a cached lookup result, or loads, caches and returns it.
+ * Failed loads are not cached; an expired result for the key is returned instead, if any.
+ * @param resource Which registry resource the lookup reads (sets the TTL).
+ * @param key Identifies the lookup within the resource (e.g. city code + query).
+ * @param load Performs the lookup on a miss. Its signal is aborted once every
+ *   caller waiting for it has aborted, since callers share one request.
+ * @param signal Aborting it rejects this caller's promise.
+ * @returns Promise<T> The cached or freshly loaded value.
+ */
+export function cachedLookup<T>(
+    resource: LookupResource,
+    key: string,
+    load: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+): Promise<T> {
+    const cacheKey = `${resource}:${key}`;
+
+    const cached = readFromMemory(cacheKey);
+    if (cached) {
+        return Promise.resolve(cached.value as T);
+    }
+
+    let lookup = inFlight.get(cacheKey);
+    if (!lookup) {
+        const startedIn = generation;
+        const controller = new AbortController();
+        const pending = (async () => {
+            const persisted = await readPersisted(cacheKey);
+            if (persisted) {
+                rememberInMemory(cacheKey, persisted);
+                return persisted.value as T;
+            }
+            let value: T;
+            try {
+                value = await load(controller.signal);
+            } catch (error) {
+                if (controller.signal.aborted) {
+                    throw error; // Nobody is waiting any more
+                }
+                const expired =
+                    readFromMemory(cacheKey, true) ??
+                    (await readPersisted(cacheKey, true));
+                if (expired) {
+                    console.warn(
+                        `Lookup "${cacheKey}" failed, serving expired cached result:`,
+                        error
+                    );
+                    return expired.value as T;
+                }
+                throw error;
+            }
+            if (startedIn === generation) {
+                const entry = {
+                    value,
+                    expiresAt: Date.now() + LOOKUP_TTL_MS[resource],
+                };
+                rememberInMemory(cacheKey, entry);
+                writePersisted(cacheKey, entry);
+            }
+            return value;
+        })();
+        const started: InFlightLookup = {
+            promise: pending,
+            controller,
+            waiters: 0,
+        };
+        pending
+            .finally(() => {
+                // A clearLookupCache in between may have started a newer lookup for this key
+                if (inFlight.get(cacheKey) === started) {
+                    inFlight.delete(cacheKey);
+                }
+            })
+            .catch(() => {}); // The caller handles the rejection
+        inFlight.set(cacheKey, started);
+        lookup = started;
+    }
+    return waitFor<T>(lookup, signal);
+}
+
+/**
+ * Empties both cache tiers, e.g. after the registry was updated.
+ * @returns Promise<void> Resolves once the persistent tier is cleared too.
+ * @throws {Error} Throws if the IndexedDB tier could not be cleared.
+ */
+export async function clearLookupCache(): Promise<void> {
+    generation++;
+    memory.clear();
+    inFlight.clear();
+    if (!isIndexedDbAvailable()) {
+        return; // Nothing was persisted
+    }
+    await withStore(STORES.lookupCache, "readwrite", (store) => store.clear());
+}
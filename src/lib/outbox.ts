@@ -0,0 +1,410 @@
+// src/lib/outbox.ts
+import { postPatientData, SubmitError } from "./api";
+import { errorMessage, submitErrorMessage } from "./errorMessages";
+import { getBackoffDelay } from "./httpResilience";
+import { STORES, isIndexedDbAvailable, withStore } from "./idb";
+import type { PatientFormData } from "./schema";
+import { isTransientSubmitError, type SubmitErrorCode } from "./submitContract";
+
+// --- Submission Outbox ---
+// Submissions that failed for a passing reason (network down, a destination hiccup)
+// wait here instead of being lost when the form is reset or the tab is closed.
+// The patient data is encrypted with AES-GCM under a non-extractable key kept
+// in IndexedDB, so it isn't stored as plain text on the device. Items are
+// resent with backoff, and all at once when the browser comes back online.
+// They keep their submission ID as the Idempotency-Key, so a resend whose
+// first try did arrive (or a second tab sending the same item) isn't delivered twice.
+
+const CRYPTO_KEY_ID = "outbox";
+// Resend delays: full jitter up to 5s, doubled per attempt, at most 5 minutes.
+// Automatic resends stop after 20 attempts or a day, whichever comes first;
+// by then the problem needs a person, and staff can still send it by hand.
+const OUTBOX_RETRY_OPTIONS = {
+    baseDelayMs: 5000,
+    maxDelayMs: 5 * 60 * 1000,
+    maxAttempts: 20,
+    maxAgeMs: 24 * 60 * 60 * 1000,
+};
+
+export interface OutboxRetryOptions {
+    baseDelayMs: number;
+    maxDelayMs: number;
+    maxAttempts: number; // Counting the send from the form
+    maxAgeMs: number; // Since the item was queued
+}
+
+export interface OutboxError {
+    code?: SubmitErrorCode; // Missing for failures outside the submit contract
+    // Built with errorMessage(), so the UI shows it in its language. Items
+    // saved by older versions hold English text, which is shown as it is.
+    message: string;
+}
+
+interface OutboxItemMeta {
+    id: string; // The submission ID, sent again as the Idempotency-Key
+    createdAt: number; // Epoch ms
+    attempts: number; // Sends so far, counting the one from the form
+    nextAttemptAt: number | null; // null: stopped, waiting for staff
+    failed: boolean; // Stopped because transient errors went on too long
+    lastError: OutboxError;
+}
+
+// What IndexedDB holds: the metadata in the clear, the patient data encrypted
+interface StoredOutboxItem extends OutboxItemMeta {
+    iv: Uint8Array;
+    ciphertext: ArrayBuffer;
+}
+
+export interface OutboxItem extends OutboxItemMeta {
+    data: PatientFormData | null; // null if it can no longer be decrypted (key lost)
+}
+
+export interface SubmissionOutbox {
+    /** Number of queued items; 0 until start() has loaded it */
+    getCount(): number;
+    /** Calls the listener whenever the queue changes; returns the unsubscribe function */
+    subscribe(listener: () => void): () => void;
+    /**
+     * Queues a submission that failed.
+     * @param submissionId Its Idempotency-Key, kept for every resend.
+     * @param data The validated form data.
+     * @param error Why it failed; permanent errors are queued as stopped.
+     */
+    add(
+        submissionId: string,
+        data: PatientFormData,
+        error: unknown
+    ): Promise<void>;
+    /** All items, oldest first, decrypted */
+    list(): Promise<OutboxItem[]>;
+    /** Sends one item now, stopped or not. Resolves true if it was delivered */
+    retry(id: string): Promise<boolean>;
+    discard(id: string): Promise<void>;
+    /**
+     * Sends due items and keeps resending (on a timer and when the browser
+     * comes back online) until every returned stop function has been called.
+     * @param onDelivered Called for each item delivered from the queue.
+     */
+    start(onDelivered?: (item: OutboxItem) => void): () => void;
+}
+
+/** Needs IndexedDB and WebCrypto; the latter only exists in secure contexts (https, localhost) */
+export const isOutboxAvailable = () =>
+    isIndexedDbAvailable() &&
+    typeof crypto !== "undefined" &&
+    crypto.subtle !== undefined;
+
+let cryptoKeyPromise: Promise<CryptoKey> | null = null;
+
+// Loads the outbox key, creating it on first use. A failed load isn't cached.
+function getCryptoKey(): Promise<CryptoKey> {
+    if (!cryptoKeyPromise) {
+        cryptoKeyPromise = (async () => {
+            const readKey = () =>
+                withStore<CryptoKey | undefined>(
+                    STORES.cryptoKeys,
+                    "readonly",
+                    (store) => store.get(CRYPTO_KEY_ID)
+                );
+            const existing = await readKey();
+            if (existing) {
+                return existing;
+            }
+            const key = await crypto.subtle.generateKey(
+                { name: "AES-GCM", length: 256 },
+                false, // Non-extractable: scripts can use it, never read it
+                ["encrypt", "decrypt"]
+            );
+            try {
+                // add, not put: if another tab saved a key first, use that one
+                await withStore(STORES.cryptoKeys, "readwrite", (store) =>
+                    store.add(key, CRYPTO_KEY_ID)
+                );
+                return key;
+            } catch (error) {
+                const name = (error as DOMException | null)?.name;
+                if (name !== "ConstraintError") {
+                    throw error;
+                }
+                const winner = await readKey();
+                if (!winner) throw error;
+                return winner;
+            }
+        })();
+        cryptoKeyPromise.catch(() => {
+            cryptoKeyPromise = null;
+        });
+    }
+    return cryptoKeyPromise;
+}
+
+// The item ID is bound in as additional data, so ciphertexts can't be swapped between items
+async function encrypt(id: string, data: PatientFormData) {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+        { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(id) },
+        await getCryptoKey(),
+        new TextEncoder().encode(JSON.stringify(data))
+    );
+    return { iv, ciphertext };
+}
+
+async function decrypt(item: StoredOutboxItem): Promise<PatientFormData> {
+    const plaintext = await crypto.subtle.decrypt(
+        {
+            name: "AES-GCM",
+            iv: item.iv,
+            additionalData: new TextEncoder().encode(item.id),
+        },
+        await getCryptoKey(),
+        item.ciphertext
+    );
+    return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+// The details (e.g. the server's English message) are logged where it failed
+function toOutboxError(error: unknown): OutboxError {
+    if (error instanceof SubmitError) {
+        return { code: error.code, message: submitErrorMessage(error.code) };
+    }
+    return { message: errorMessage("submit.failed") };
+}
+
+// Unknown failures stop the item too: resending won't fix a bug
+const isTransient = (error: unknown) =>
+    error instanceof SubmitError && isTransientSubmitError(error.code);
+
+const toMeta = (item: StoredOutboxItem): OutboxItemMeta => ({
+    id: item.id,
+    createdAt: item.createdAt,
+    attempts: item.attempts,
+    nextAttemptAt: item.nextAttemptAt,
+    failed: item.failed ?? false, // Missing on items queued before it existed
+    lastError: item.lastError,
+});
+
+/**
+ * Creates an outbox over the app's IndexedDB outbox store.
+ * @param send Delivers one submission; should throw SubmitError on failure.
+ * @param retry Backoff delays between resends, and when to stop resending.
+ * @returns The outbox; call start() to begin resending.
+ */
+export function createSubmissionOutbox(
+    send: (data: PatientFormData, submissionId: string) => Promise<unknown>,
+    retry: OutboxRetryOptions
+): SubmissionOutbox {
+    let count = 0;
+    let starts = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let flushing: Promise<void> | null = null;
+    const listeners = new Set<() => void>();
+    const deliveredListeners = new Set<(item: OutboxItem) => void>();
+    // Items being sent right now, and those discarded meanwhile
+    const sending = new Set<string>();
+    const discardedWhileSending = new Set<string>();
+
+    const readAll = () =>
+        withStore<StoredOutboxItem[]>(STORES.outbox, "readonly", (store) =>
+            store.getAll()
+        );
+
+    const readOne = (id: string) =>
+        withStore<StoredOutboxItem | undefined>(
+            STORES.outbox,
+            "readonly",
+            (store) => store.get(id)
+        );
+
+    const save = (item: StoredOutboxItem) =>
+        withStore(STORES.outbox, "readwrite", (store) =>
+            store.put(item, item.id)
+        );
+
+    const remove = (id: string) =>
+        withStore(STORES.outbox, "readwrite", (store) => store.delete(id));
+
+    // Re-reads the count and tells listeners; called after every change
+    const changed = async () => {
+        count = await withStore(STORES.outbox, "readonly", (store) =>
+            store.count()
+        );
+        listeners.forEach((listener) => listener());
+    };
+
+    // When to send again after a failed attempt; null to stop. Transient
+    // errors stop too, marked failed, once the item is out of attempts or time.
+    const nextAttemptAfter = (
+        error: unknown,
+        attempts: number,
+        createdAt: number
+    ) => {
+        if (!isTransient(error)) {
+            return { nextAttemptAt: null, failed: false };
+        }
+        const at = Date.now() + getBackoffDelay(attempts - 1, retry);
+        return attempts >= retry.maxAttempts ||
+            at - createdAt > retry.maxAgeMs
+            ? { nextAttemptAt: null, failed: true }
+            : { nextAttemptAt: at, failed: false };
+    };
+
+    const deliver = async (item: StoredOutboxItem): Promise<boolean> => {
+        if (sending.has(item.id)) return false;
+        sending.add(item.id);
+        try {
+            let data: PatientFormData;
+            try {
+                data = await decrypt(item);
+            } catch (error) {
+                console.error("Outbox item can't be decrypted:", error);
+                await save({
+                    ...item,
+                    nextAttemptAt: null,
+                    failed: false,
+                    lastError: { message: errorMessage("outbox.unreadable") },
+                });
+                return false;
+            }
+
+            try {
+                await send(data, item.id);
+            } catch (error) {
+                console.warn(`Outbox resend of ${item.id} failed:`, error);
+                if (discardedWhileSending.has(item.id)) return false;
+                const attempts = item.attempts + 1;
+                await save({
+                    ...item,
+                    attempts,
+                    ...nextAttemptAfter(error, attempts, item.createdAt),
+                    lastError: toOutboxError(error),
+                });
+                return false;
+            }
+
+            await remove(item.id);
+            const delivered = { ...toMeta(item), data };
+            deliveredListeners.forEach((listener) => listener(delivered));
+            return true;
+        } finally {
+            sending.delete(item.id);
+            discardedWhileSending.delete(item.id);
+            await changed();
+        }
+    };
+
+    // Sets the timer for the soonest scheduled item, while started
+    const scheduleNext = async () => {
+        clearTimeout(timer);
+        if (starts === 0) return;
+        const scheduled = (await readAll())
+            .map((item) => item.nextAttemptAt)
+            .filter((at): at is number => at !== null);
+        if (scheduled.length > 0) {
+            const delay = Math.max(0, Math.min(...scheduled) - Date.now());
+            timer = setTimeout(() => void flush(), delay);
+        }
+    };
+
+    // Sends the items that are due, or every scheduled one (back online)
+    const flush = (ignoreSchedule = false): Promise<void> => {
+        if (!flushing) {
+            flushing = (async () => {
+                clearTimeout(timer);
+                try {
+                    const items = (await readAll()).sort(
+                        (a, b) => a.createdAt - b.createdAt
+                    );
+                    for (const item of items) {
+                        if (navigator.onLine === false) break;
+                        if (
+                            item.nextAttemptAt !== null &&
+                            (ignoreSchedule || item.nextAttemptAt <= Date.now())
+                        ) {
+                            await deliver(item);
+                        }
+                    }
+                    await scheduleNext();
+                } catch (error) {
+                    console.warn("Outbox flush failed:", error);
+                } finally {
+                    flushing = null;
+                }
+            })();
+        }
+        return flushing;
+    };
+
+    return {
+        getCount: () => count,
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+        async add(submissionId, data, error) {
+            const now = Date.now();
+            await save({
+                id: submissionId,
+                createdAt: now,
+                attempts: 1,
+                ...nextAttemptAfter(error, 1, now),
+                lastError: toOutboxError(error),
+                ...(await encrypt(submissionId, data)),
+            });
+            await changed();
+            await scheduleNext();
+        },
+        async list() {
+            const items = await readAll();
+            const decrypted = await Promise.all(
+                items.map(async (item) => ({
+                    ...toMeta(item),
+                    data: await decrypt(item).catch(() => null),
+                }))
+            );
+            return decrypted.sort((a, b) => a.createdAt - b.createdAt);
+        },
+        async retry(id) {
+            const item = await readOne(id);
+            if (!item) return false;
+            const delivered = await deliver(item);
+            await scheduleNext();
+            return delivered;
+        },
+        async discard(id) {
+            if (sending.has(id)) {
+                discardedWhileSending.add(id);
+            }
+            await remove(id);
+            await changed();
+        },
+        start(onDelivered) {
+            if (!isOutboxAvailable()) {
+                return () => {};
+            }
+            starts++;
+            if (onDelivered) deliveredListeners.add(onDelivered);
+            const handleOnline = () => void flush(true);
+            window.addEventListener("online", handleOnline);
+            changed()
+                .then(() => flush())
+                .catch((error) =>
+                    console.warn("Outbox failed to load:", error)
+                );
+
+            return () => {
+                starts--;
+                if (onDelivered) deliveredListeners.delete(onDelivered);
+                window.removeEventListener("online", handleOnline);
+                if (starts === 0) clearTimeout(timer);
+            };
+        },
+    };
+}
+
+/** The app's outbox, resending through postPatientData */
+export const submissionOutbox = createSubmissionOutbox(
+    postPatientData,
+    OUTBOX_RETRY_OPTIONS
+);
@@ -0,0 +1,40 @@
+// src/lib/phoneCountries.ts
+
+/**
+ * Countries offered in the phone country selector.
+ * Israel comes first and is the default; the rest cover the most common
+ * origins of tourists, new immigrants and relatives abroad.
+ * nationalLength is how many digits follow the dial code (min-max), and
+ * trunkPrefix what people dial before a national number at home (the 0 of
+ * 020 7946 0958); both are used to check numbers (see toE164PhoneNumber).
+ */
+export const PHONE_COUNTRIES = [
+    { code: "IL", dialCode: "972", name: "Israel", trunkPrefix: "0", nationalLength: { min: 8, max: 9 } },
+    { code: "US", dialCode: "1", name: "United States / Canada", trunkPrefix: "1", nationalLength: { min: 10, max: 10 } },
+    { code: "GB", dialCode: "44", name: "United Kingdom", trunkPrefix: "0", nationalLength: { min: 9, max: 10 } },
+    { code: "FR", dialCode: "33", name: "France", trunkPrefix: "0", nationalLength: { min: 9, max: 9 } },
+    { code: "DE", dialCode: "49", name: "Germany", trunkPrefix: "0", nationalLength: { min: 6, max: 13 } },
+    { code: "RU", dialCode: "7", name: "Russia", trunkPrefix: "8", nationalLength: { min: 10, max: 10 } },
+    { code: "UA", dialCode: "380", name: "Ukraine", trunkPrefix: "0", nationalLength: { min: 9, max: 9 } },
+    { code: "ET", dialCode: "251", name: "Ethiopia", trunkPrefix: "0", nationalLength: { min: 9, max: 9 } },
+    { code: "AR", dialCode: "54", name: "Argentina", trunkPrefix: "0", nationalLength: { min: 10, max: 11 } },
+    { code: "BR", dialCode: "55", name: "Brazil", trunkPrefix: "0", nationalLength: { min: 10, max: 11 } },
+    { code: "ZA", dialCode: "27", name: "South Africa", trunkPrefix: "0", nationalLength: { min: 9, max: 9 } },
+    { code: "AU", dialCode: "61", name: "Australia", trunkPrefix: "0", nationalLength: { min: 9, max: 9 } },
+    { code: "JO", dialCode: "962", name: "Jordan", trunkPrefix: "0", nationalLength: { min: 8, max: 9 } },
+    { code: "PS", dialCode: "970", name: "Palestine", trunkPrefix: "0", nationalLength: { min: 8, max: 9 } },
+] as const;
+
+export type PhoneCountry = (typeof PHONE_COUNTRIES)[number];
+export type PhoneCountryCode = PhoneCountry["code"];
+
+export const DEFAULT_PHONE_COUNTRY: PhoneCountryCode = "IL";
+
+/**
+ * Looks up a phone country by its ISO 3166-1 alpha-2 code.
+ * @param code The country code (e.g. "IL").
+ * @returns The matching country, or undefined if it is not supported.
+ */
+export function getPhoneCountry(code: string): PhoneCountry | undefined {
+    return PHONE_COUNTRIES.find((country) => country.code === code);
+}
@@ -1,70 +1,391 @@
 // src/lib/schema.ts
+// The submit function runs this as Node ESM, unbundled: relative imports
+// here (and in the modules they import) need their .js extension.
 import { z } from "zod";
-// Assuming isValidIsraeliPhoneNumber here is Version 1 (Domestic Only) as confirmed
-import { isValidIsraeliId, isValidIsraeliPhoneNumber } from "./validators";
+import { errorMessage } from "./errorMessages.js";
+import {
+    getIsraeliIdFeedback,
+    normalizeIsraeliId,
+    toE164PhoneNumber,
+} from "./validators.js";
+import {
+    DEFAULT_PHONE_COUNTRY,
+    PHONE_COUNTRIES,
+    getPhoneCountry,
+    type PhoneCountryCode,
+} from "./phoneCountries.js";
+import {
+    ADULT_AGE,
+    MAX_AGE,
+    getDateOfBirthBounds,
+    isMinor,
+    parseIsoDate,
+} from "./dateOfBirth.js";
 
 // --- Enums ---
 export const phoneTypeEnum = z.enum(["Home", "Mobile", "Work", "Other"], {
-    required_error: "Phone type is required",
+    required_error: errorMessage("phone.typeRequired"),
 });
 export const addressTypeEnum = z.enum(["Home", "Work", "Other"], {
-    required_error: "Address type is required",
+    required_error: errorMessage("address.typeRequired"),
 });
 export const hmoEnum = z.enum(["Clalit", "Maccabi", "Mehuedet", "Leumit"], {
-    required_error: "HMO is required",
+    required_error: errorMessage("hmo.required"),
 });
+export const identifierTypeEnum = z.enum(
+    ["IsraeliId", "Passport", "ForeignResident", "Temporary"],
+    { required_error: errorMessage("identifier.typeRequired") }
+);
+export const guardianRelationshipEnum = z.enum(
+    ["Parent", "LegalGuardian", "Grandparent", "Sibling", "Other"],
+    { required_error: errorMessage("guardian.relationshipRequired") }
+);
+export const contactRelationshipEnum = z.enum(
+    ["Spouse", "Parent", "Child", "Sibling", "Friend", "Other"],
+    { required_error: errorMessage("contact.relationshipRequired") }
+);
+export const phoneCountryEnum = z.enum(
+    PHONE_COUNTRIES.map((country) => country.code) as [
+        PhoneCountryCode,
+        ...PhoneCountryCode[]
+    ],
+    { required_error: errorMessage("phone.countryRequired") }
+);
+
+// --- Phone Helpers (shared by every phone input: a country plus the number as typed) ---
+const phoneEntryShape = {
+    country: phoneCountryEnum.default(DEFAULT_PHONE_COUNTRY),
+    number: z.string().min(1, errorMessage("phone.numberRequired")),
+};
+
+type PhoneEntry = { country: string; number: string };
+
+function validatePhoneEntry(phone: PhoneEntry, ctx: z.RefinementCtx) {
+    const country = getPhoneCountry(phone.country);
+    if (!phone.number || !country) {
+        return; // Already reported by the field rules
+    }
+    if (!toE164PhoneNumber(phone.number, country)) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["number"],
+            message:
+                country.code === DEFAULT_PHONE_COUNTRY
+                    ? errorMessage("phone.invalidIsraeli")
+                    : errorMessage("phone.invalidForCountry", {
+                          country: country.code,
+                      }),
+        });
+    }
+}
+
+// Store the canonical E.164 form (e.g. +972501234567) instead of what was typed
+function toCanonicalPhoneEntry<T extends PhoneEntry>(phone: T): T {
+    const country = getPhoneCountry(phone.country);
+    return {
+        ...phone,
+        number:
+            (country && toE164PhoneNumber(phone.number, country)) ||
+            phone.number,
+    };
+}
 
 // --- Sub-Schemas ---
-export const phoneNumberSchema = z.object({
-    // Use a unique identifier for field array keys, separate from potential data IDs
-    // React Hook Form manages keys internally, so explicit 'id' isn't strictly needed here
-    // unless your backend expects it or you use it for specific logic.
-    type: phoneTypeEnum,
-    number: z
-        .string()
-        .min(1, "Phone number is required")
-        .refine(isValidIsraeliPhoneNumber, {
-            // Uses the imported domestic-only validator
-            message: "Invalid Israeli phone number format",
-        }),
-    isMain: z.boolean().default(false),
-});
+export const phoneNumberSchema = z
+    .object({
+        // Use a unique identifier for field array keys, separate from potential data IDs
+        // React Hook Form manages keys internally, so explicit 'id' isn't strictly needed here
+        // unless your backend expects it or you use it for specific logic.
+        type: phoneTypeEnum,
+        ...phoneEntryShape,
+        isMain: z.boolean().default(false),
+    })
+    .superRefine(validatePhoneEntry)
+    .transform(toCanonicalPhoneEntry);
+
+// A phone without type/main flag, e.g. a guardian's or a contact's phone
+export const contactPhoneSchema = z
+    .object(phoneEntryShape)
+    .superRefine(validatePhoneEntry)
+    .transform(toCanonicalPhoneEntry);
 
-export const addressSchema = z.object({
-    cityCode: z.string().min(1, "City selection is required"),
-    cityName: z.string().min(1, "City name is required"), // Good practice to store for display/context
-    streetCode: z.string().min(1, "Street selection is required"),
-    streetName: z.string().min(1, "Street name is required"),
-    streetNumber: z.coerce // Automatically convert input to number
-        .number({ invalid_type_error: "Street number must be a number" })
-        .int("Street number must be a whole number")
-        .positive("Street number must be positive")
-        .min(1, "Street number is required"),
+// Optional free-text address part: trimmed, empty input allowed, otherwise must match `schema`
+function optionalAddressPart(schema: z.ZodString) {
+    return z.string().trim().pipe(z.union([z.literal(""), schema])).optional();
+}
+
+// Shared by both address variants
+const addressBaseShape = {
+    cityCode: z.string().min(1, errorMessage("address.cityRequired")),
+    cityName: z.string().min(1, errorMessage("address.cityNameRequired")), // Good practice to store for display/context
+    // Israeli postal code (mikud)
+    postalCode: optionalAddressPart(
+        z.string().regex(/^\d{7}$/, errorMessage("address.postalCodeInvalid"))
+    ),
     addressType: addressTypeEnum,
-    comments: z.string().max(500, "Comments too long").optional(),
+    comments: z.string().max(500, errorMessage("address.commentsTooLong")).optional(),
+};
+
+// A regular address, with a street picked from the registry
+export const streetAddressSchema = z.object({
+    addressMode: z.literal("street"),
+    ...addressBaseShape,
+    streetCode: z.string().min(1, errorMessage("address.streetRequired")),
+    streetName: z.string().min(1, errorMessage("address.streetNameRequired")),
+    // House number with an optional Hebrew letter suffix (e.g. 12, 12א).
+    // API callers may send it as a number; anything else must already be a
+    // string (z.coerce would turn a missing value into "undefined").
+    streetNumber: z.preprocess(
+        (value) => (typeof value === "number" ? String(value) : value),
+        z
+            .string({
+                required_error: errorMessage("address.streetNumberRequired"),
+            })
+            .trim()
+            .min(1, errorMessage("address.streetNumberRequired"))
+            .regex(
+                /^[1-9]\d{0,4}\s?[א-ת]?$/,
+                errorMessage("address.streetNumberInvalid")
+            )
+            .transform((value) => value.replace(/\s/g, ""))
+    ),
+    entrance: optionalAddressPart(
+        z
+            .string()
+            .regex(
+                /^([א-ת]|[A-Za-z]|\d{1,2})$/,
+                errorMessage("address.entranceInvalid")
+            )
+    ),
+    floor: optionalAddressPart(
+        z
+            .string()
+            .regex(
+                /^-?\d{1,3}$/,
+                errorMessage("address.floorInvalid")
+            )
+    ),
+    apartment: optionalAddressPart(
+        z
+            .string()
+            .regex(
+                /^[0-9A-Za-zא-ת]{1,6}$/,
+                errorMessage("address.apartmentInvalid")
+            )
+    ),
+});
+
+// For localities with no streets in the registry (many kibbutzim, moshavim, Bedouin villages)
+export const localityAddressSchema = z.object({
+    addressMode: z.literal("localityOnly"),
+    ...addressBaseShape,
+    // Free-text line, e.g. "Neighborhood B, house 12"
+    addressLine: optionalAddressPart(
+        z
+            .string()
+            .min(2, errorMessage("address.lineTooShort"))
+            .max(200, errorMessage("address.lineTooLong"))
+    ),
+    // Post office box (ת.ד.)
+    poBox: optionalAddressPart(
+        z.string().regex(/^\d{1,6}$/, errorMessage("address.poBoxInvalid"))
+    ),
+});
+
+export const addressSchema = z
+    .discriminatedUnion("addressMode", [
+        streetAddressSchema,
+        localityAddressSchema,
+    ])
+    .superRefine((address, ctx) => {
+        // Without a street, the address line or PO box is all a visitor has to go on
+        if (
+            address.addressMode === "localityOnly" &&
+            !address.addressLine &&
+            !address.poBox
+        ) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                path: ["addressLine"],
+                message: errorMessage("address.lineOrPoBoxRequired"),
+            });
+        }
+    });
+
+// --- Israeli ID (patient and guardian) ---
+const israeliIdSchema = z
+    .string()
+    // Strip separators and zero-pad older 5-8 digit IDs before checking
+    .transform(normalizeIsraeliId)
+    .pipe(
+        z
+            .string()
+            .regex(/^\d{9}$/, errorMessage("identifier.israeliIdLength"))
+            .superRefine((id, ctx) => {
+                const feedback = getIsraeliIdFeedback(id);
+                if (feedback.status === "invalidCheckDigit") {
+                    ctx.addIssue({
+                        code: z.ZodIssueCode.custom,
+                        message: errorMessage("identifier.israeliIdCheckDigit", {
+                            expected: feedback.expectedCheckDigit,
+                        }),
+                    });
+                }
+            })
+    );
+
+// --- Patient Identifier (one variant per identifier type) ---
+export const identifierSchema = z.discriminatedUnion("type", [
+    z.object({
+        type: z.literal(identifierTypeEnum.enum.IsraeliId),
+        value: israeliIdSchema,
+    }),
+    z.object({
+        type: z.literal(identifierTypeEnum.enum.Passport),
+        value: z
+            .string()
+            .trim()
+            .toUpperCase()
+            .regex(
+                /^[A-Z0-9]{5,20}$/,
+                errorMessage("identifier.passportInvalid")
+            ),
+        // The 3-letter issuing state code printed on the passport (e.g. USA, FRA)
+        issuingCountry: z
+            .string()
+            .trim()
+            .toUpperCase()
+            .regex(/^[A-Z]{3}$/, errorMessage("identifier.issuingCountryInvalid")),
+    }),
+    z.object({
+        type: z.literal(identifierTypeEnum.enum.ForeignResident),
+        value: z
+            .string()
+            .trim()
+            .toUpperCase()
+            .regex(
+                /^[A-Z0-9-]{4,20}$/,
+                errorMessage("identifier.foreignIdInvalid")
+            ),
+    }),
+    z.object({
+        // Issued by the hospital until the patient gets an Israeli ID (e.g. newborns)
+        type: z.literal(identifierTypeEnum.enum.Temporary),
+        value: z
+            .string()
+            .trim()
+            .regex(/^\d{6,10}$/, errorMessage("identifier.temporaryInvalid")),
+    }),
+]);
+
+// --- Guardian (required for minors) ---
+export const guardianSchema = z.object({
+    firstName: z.string().trim().min(1, { message: errorMessage("person.firstNameRequired") }),
+    lastName: z.string().trim().min(1, { message: errorMessage("person.lastNameRequired") }),
+    id: israeliIdSchema,
+    relationship: guardianRelationshipEnum,
+    phone: contactPhoneSchema,
+});
+
+// --- Emergency Contact ---
+export const emergencyContactSchema = z.object({
+    name: z.string().trim().min(1, { message: errorMessage("contact.nameRequired") }),
+    relationship: contactRelationshipEnum,
+    phone: contactPhoneSchema,
 });
 
+// --- Consistency Rules (across rows of the same array) ---
+// Israeli landline area codes (02/03/04/08/09) in E.164 form
+const ISRAELI_LANDLINE_E164 = /^\+972[23489]\d{7}$/;
+
+function refinePhoneConsistency(
+    phones: z.infer<typeof phoneNumberSchema>[],
+    ctx: z.RefinementCtx
+) {
+    // Numbers are already canonical E.164, so "050-1234567" and "+972501234567" match
+    const firstIndexByNumber = new Map<string, number>();
+    phones.forEach((phone, index) => {
+        const firstIndex = firstIndexByNumber.get(phone.number);
+        if (firstIndex === undefined) {
+            firstIndexByNumber.set(phone.number, index);
+        } else {
+            ctx.addIssue({
+                path: [index, "number"],
+                code: z.ZodIssueCode.custom,
+                message: errorMessage("phone.duplicate", {
+                    index: firstIndex + 1,
+                }),
+            });
+        }
+
+        if (phone.type === "Mobile" && ISRAELI_LANDLINE_E164.test(phone.number)) {
+            ctx.addIssue({
+                path: [index, "type"],
+                code: z.ZodIssueCode.custom,
+                message: errorMessage("phone.mobileLandline"),
+            });
+        }
+    });
+}
+
+function refineAddressConsistency(
+    addresses: z.infer<typeof addressSchema>[],
+    ctx: z.RefinementCtx
+) {
+    const firstHomeIndex = addresses.findIndex((a) => a.addressType === "Home");
+    addresses.forEach((address, index) => {
+        if (address.addressType === "Home" && index !== firstHomeIndex) {
+            ctx.addIssue({
+                path: [index, "addressType"],
+                code: z.ZodIssueCode.custom,
+                message: errorMessage("address.onlyOneHome", {
+                    index: firstHomeIndex + 1,
+                }),
+            });
+        }
+    });
+}
+
 // --- Main Patient Schema ---
-export const patientSchema = z.object({
-    id: z
+const patientObjectSchema = z.object({
+    identifier: identifierSchema,
+    firstName: z.string().trim().min(1, { message: errorMessage("person.firstNameRequired") }),
+    lastName: z.string().trim().min(1, { message: errorMessage("person.lastNameRequired") }),
+    dateOfBirth: z
         .string()
-        // Use .length() for clearer intent of exactly 9 digits
-        .length(9, "ID must be exactly 9 digits")
-        .refine(isValidIsraeliId, {
-            message: "Invalid Israeli ID number",
+        .min(1, errorMessage("dob.required"))
+        .superRefine((value, ctx) => {
+            const dob = parseIsoDate(value);
+            // By the clinic's date, so the server agrees with the form's max
+            const { min, max } = getDateOfBirthBounds();
+            if (!dob) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    message: errorMessage("dob.invalid"),
+                });
+            } else if (value > max) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    message: errorMessage("dob.future"),
+                });
+            } else if (value < min) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    message: errorMessage("dob.tooOld", { maxAge: MAX_AGE }),
+                });
+            }
         }),
-    firstName: z.string().trim().min(1, { message: "First name is required" }),
-    lastName: z.string().trim().min(1, { message: "Last name is required" }),
+    guardian: guardianSchema.optional(),
     phoneNumbers: z
         .array(phoneNumberSchema)
-        .min(1, "At least one phone number is required")
+        .min(1, errorMessage("phone.atLeastOne"))
         .superRefine((phones, ctx) => {
             const mainPhones = phones.filter((p) => p.isMain);
             if (mainPhones.length === 0) {
                 // Add issue to the array root if no main number is selected
                 ctx.addIssue({
                     code: z.ZodIssueCode.custom,
-                    message: `One phone number must be marked as main.`,
+                    message: errorMessage("phone.mainRequired"),
                     path: [], // Error applies to the whole array
                 });
             } else if (mainPhones.length > 1) {
@@ -74,22 +395,63 @@ export const patientSchema = z.object({
                         ctx.addIssue({
                             path: [index, "isMain"], // Pinpoint the error to the specific checkbox
                             code: z.ZodIssueCode.custom,
-                            message: `Only one phone can be main.`,
+                            message: errorMessage("phone.onlyOneMain"),
                         });
                     }
                 });
             }
-        }),
+        })
+        .superRefine(refinePhoneConsistency),
     hmo: hmoEnum,
     addresses: z
         .array(addressSchema)
-        .min(1, "At least one address is required"),
+        .min(1, errorMessage("address.atLeastOne"))
+        .superRefine(refineAddressConsistency),
+    emergencyContacts: z.array(emergencyContactSchema).default([]),
+});
+
+export const patientSchema = patientObjectSchema.superRefine((patient, ctx) => {
+    // Enforced here and not only in the UI, so a minor can never be submitted without a guardian
+    if (isMinor(patient.dateOfBirth) && !patient.guardian) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["guardian"],
+            message: errorMessage("guardian.required", { adultAge: ADULT_AGE }),
+        });
+    }
+
+    if (isMinor(patient.dateOfBirth) && patient.emergencyContacts.length === 0) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["emergencyContacts"],
+            message: errorMessage("contact.requiredForMinor", {
+                adultAge: ADULT_AGE,
+            }),
+        });
+    }
+
+    // Phones are already in E.164 form here, so formatting differences don't hide a duplicate
+    const mainPhone = patient.phoneNumbers.find((p) => p.isMain)?.number;
+    patient.emergencyContacts.forEach((contact, index) => {
+        if (mainPhone && contact.phone.number === mainPhone) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                path: ["emergencyContacts", index, "phone", "number"],
+                message: errorMessage("contact.duplicatesMainPhone"),
+            });
+        }
+    });
 });
 
 // --- TypeScript Types ---
 export type PatientFormData = z.infer<typeof patientSchema>;
+export type IdentifierData = z.infer<typeof identifierSchema>;
+export type IdentifierType = z.infer<typeof identifierTypeEnum>;
 export type PhoneNumberData = z.infer<typeof phoneNumberSchema>;
+export type GuardianData = z.infer<typeof guardianSchema>;
+export type EmergencyContactData = z.infer<typeof emergencyContactSchema>;
 export type AddressData = z.infer<typeof addressSchema>;
+export type AddressMode = AddressData["addressMode"];
 
 // --- API Response Interfaces ---
 // Consider moving these interfaces to a dedicated file (e.g., src/lib/apiTypes.ts or src/types/api.ts)
@@ -98,7 +460,7 @@ export interface ApiCity {
     _id: number;
     סמל_ישוב: string; // City Code
     שם_ישוב: string; // City Name (Hebrew)
-    // Add other fields if needed, e.g., שם_ישוב_לועזי
+    שם_ישוב_לועזי?: string; // City Name (English transliteration, upper-case)
 }
 
 export interface ApiStreet {
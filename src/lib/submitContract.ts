@@ -0,0 +1,82 @@
+// src/lib/submitContract.ts
+
+// --- Submit API Contract ---
+// The response bodies of api/submit-zapier.ts, as understood by
+// postPatientData in api.ts. Imported by both sides, so they can't drift apart.
+
+export const SUBMIT_ERROR_CODES = [
+    "METHOD_NOT_ALLOWED",
+    "VALIDATION_FAILED", // Comes with fieldErrors
+    "SERVER_MISCONFIGURED",
+    "DELIVERY_FAILED", // A destination failed or refused the data; comes with deliveries
+    "REQUEST_IN_PROGRESS", // Same Idempotency-Key is still being forwarded
+    "IDEMPOTENCY_KEY_REUSED", // Same Idempotency-Key sent with different data
+    // Set by the client when there is no usable response body
+    "NETWORK_ERROR",
+    "UNEXPECTED_RESPONSE",
+] as const;
+
+export type SubmitErrorCode = (typeof SUBMIT_ERROR_CODES)[number];
+
+// Failures that may go away by themselves; sending the same data later can succeed
+const TRANSIENT_SUBMIT_ERROR_CODES: readonly SubmitErrorCode[] = [
+    "NETWORK_ERROR",
+    "DELIVERY_FAILED",
+    "REQUEST_IN_PROGRESS",
+];
+
+/** True if resending the same submission later is worth a try */
+export function isTransientSubmitError(code: SubmitErrorCode): boolean {
+    return TRANSIENT_SUBMIT_ERROR_CODES.includes(code);
+}
+
+export interface SubmitFieldError {
+    path: string; // Dotted form path, e.g. "addresses.0.cityCode"; "" for the whole form
+    message: string; // English, for logs and API users
+    messageId?: string; // Built with errorMessage(), so the form can show it translated
+}
+
+// How one destination (Zapier, FHIR server, ...) took the submission
+export interface DeliveryResult {
+    destination: string; // e.g. "zapier", "fhir"
+    success: boolean;
+    status?: number; // The destination's HTTP status, if it answered one
+}
+
+export interface SubmitErrorBody {
+    success: false;
+    code: SubmitErrorCode;
+    message: string;
+    fieldErrors?: SubmitFieldError[];
+    deliveries?: DeliveryResult[]; // With DELIVERY_FAILED: every destination's result
+}
+
+export interface SubmitSuccessBody {
+    success: true;
+    deliveries: DeliveryResult[];
+}
+
+export type SubmitResponseBody = SubmitSuccessBody | SubmitErrorBody;
+
+function isSubmitErrorCode(value: unknown): value is SubmitErrorCode {
+    return SUBMIT_ERROR_CODES.some((code) => code === value);
+}
+
+/**
+ * Checks that an unknown response body is a SubmitErrorBody.
+ * @param body Parsed JSON from the submit API.
+ * @returns True if it carries a known error code and a message.
+ */
+export function isSubmitErrorBody(body: unknown): body is SubmitErrorBody {
+    if (typeof body !== "object" || body === null) {
+        return false;
+    }
+    const candidate = body as Partial<SubmitErrorBody>;
+    return (
+        candidate.success === false &&
+        isSubmitErrorCode(candidate.code) &&
+        typeof candidate.message === "string" &&
+        (candidate.fieldErrors === undefined ||
+            Array.isArray(candidate.fieldErrors))
+    );
+}
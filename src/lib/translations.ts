@@ -0,0 +1,722 @@
+// src/lib/translations.ts
+import { DEFAULT_LANGUAGE, type Language } from "./i18n";
+
+// --- UI Text Catalog ---
+// Labels, placeholders, buttons and toasts. Validation errors live in errorMessages.ts.
+// Placeholders like {age} are filled from the params passed to t().
+const en = {
+    "app.title": "New Patient Registration",
+    "app.language": "Language",
+
+    "common.optional": "Optional",
+    "common.loading": "Loading...",
+    "common.typeMoreToSearch": "Type more to search",
+    "common.searchFailed": "Search failed, please try again",
+    "common.noResults": "No results found.",
+    "common.createValue": 'Use "{value}"',
+    "common.firstName": "First Name",
+    "common.lastName": "Last Name",
+
+    "patient.sectionTitle": "Patient Information",
+    "patient.firstNamePlaceholder": "Enter first name",
+    "patient.lastNamePlaceholder": "Enter last name",
+
+    "identifier.typeLabel": "Identifier Type",
+    "identifier.typePlaceholder": "Select identifier type",
+    "identifier.IsraeliId.option": "Israeli ID",
+    "identifier.IsraeliId.label": "Patient ID",
+    "identifier.IsraeliId.placeholder": "Enter 9-digit ID",
+    "identifier.Passport.option": "Passport",
+    "identifier.Passport.label": "Passport Number",
+    "identifier.Passport.placeholder": "Enter passport number",
+    "identifier.ForeignResident.option": "Foreign ID",
+    "identifier.ForeignResident.label": "Foreign Resident Number",
+    "identifier.ForeignResident.placeholder": "Enter foreign ID number",
+    "identifier.Temporary.option": "Temporary Number",
+    "identifier.Temporary.label": "Temporary Hospital Number",
+    "identifier.Temporary.placeholder": "Enter temporary number",
+    "identifier.issuingCountry": "Issuing Country",
+    "identifier.issuingCountryPlaceholder": "3-letter code, e.g. USA",
+
+    "idHint.ok": "Check digit OK",
+    "idHint.mismatch":
+        "Check digit doesn't match. If the other digits are right, the last digit should be {expected} - possibly a typo.",
+
+    "dob.label": "Date of Birth",
+    "dob.age": "Age: {age}",
+    "dob.ageMinor": "Age: {age} (minor - guardian details required)",
+
+    "hmo.label": "HMO",
+    "hmo.placeholder": "Select HMO",
+    "hmo.Clalit": "Clalit",
+    "hmo.Maccabi": "Maccabi",
+    "hmo.Mehuedet": "Meuhedet",
+    "hmo.Leumit": "Leumit",
+
+    "guardian.sectionTitle": "Guardian",
+    "guardian.firstNamePlaceholder": "Guardian's first name",
+    "guardian.lastNamePlaceholder": "Guardian's last name",
+    "guardian.idLabel": "Guardian ID",
+    "guardian.idPlaceholder": "Enter 9-digit ID",
+    "guardian.relationshipLabel": "Relationship to Patient",
+    "guardian.relationshipPlaceholder": "Select relationship",
+    "guardian.phoneLabel": "Guardian Phone",
+
+    "relationship.Parent": "Parent",
+    "relationship.LegalGuardian": "Legal Guardian",
+    "relationship.Grandparent": "Grandparent",
+    "relationship.Sibling": "Sibling",
+    "relationship.Spouse": "Spouse",
+    "relationship.Child": "Child",
+    "relationship.Friend": "Friend",
+    "relationship.Other": "Other",
+
+    "phones.sectionTitle": "Phone Numbers",
+    "phones.add": "Add Phone",
+    "phones.addAria": "Add phone number",
+    "phones.removeAria": "Remove phone number",
+    "phone.typeLabel": "Type",
+    "phone.typePlaceholder": "Type",
+    "phone.setMain": "Set as Main Phone",
+    "phone.countryLabel": "Country",
+    "phone.numberLabel": "Number",
+    "phone.numberPlaceholder": "Phone number",
+    "phoneType.Mobile": "Mobile",
+    "phoneType.Home": "Home",
+    "phoneType.Work": "Work",
+    "phoneType.Other": "Other",
+
+    "contacts.sectionTitle": "Emergency Contacts",
+    "contacts.add": "Add Contact",
+    "contacts.addAria": "Add emergency contact",
+    "contacts.removeAria": "Remove emergency contact",
+    "contacts.empty": "No emergency contacts added.",
+    "contact.nameLabel": "Name",
+    "contact.namePlaceholder": "Contact name",
+    "contact.relationshipLabel": "Relationship",
+    "contact.relationshipPlaceholder": "Relationship",
+
+    "addresses.sectionTitle": "Addresses",
+    "addresses.add": "Add Address",
+    "addresses.addAria": "Add address",
+    "addresses.removeAria": "Remove address",
+    "address.typeLabel": "Address Type",
+    "address.typePlaceholder": "Type",
+    "addressType.Home": "Home",
+    "addressType.Work": "Work",
+    "addressType.Other": "Other",
+    "address.cityLabel": "City",
+    "address.cityPlaceholder": "Select city...",
+    "address.citySearch": "Search city...",
+    "address.noCity": "No city found.",
+    "address.streetLabel": "Street",
+    "address.streetPlaceholder": "Select street...",
+    "address.streetSearch": "Search street...",
+    "address.noStreet": "No street found.",
+    "address.selectCityFirst": "Select city first.",
+    "address.localityOnly": "No street address (locality only)",
+    "address.streetNumber": "Street Number",
+    "address.streetNumberPlaceholder": "e.g. 12א",
+    "address.entrance": "Entrance",
+    "address.floor": "Floor",
+    "address.apartment": "Apartment",
+    "address.addressLine": "Address Line",
+    "address.addressLinePlaceholder": "e.g. Neighborhood B, house 12",
+    "address.poBox": "PO Box",
+    "address.postalCode": "Postal Code",
+    "address.postalCodePlaceholder": "7 digits (optional)",
+    "address.comments": "Address Comments",
+    "address.commentsPlaceholder":
+        "Optional notes (e.g., gate code, directions)",
+
+    "toast.citiesError": "Error Fetching Cities",
+    "toast.citiesErrorFallback": "Could not fetch city data.",
+    "toast.streetsError": "Error Fetching Streets",
+    "toast.streetsErrorFallback": "Could not fetch street data.",
+    "toast.streetCheckFailed": "Could not check streets for this city",
+    "toast.streetCheckHint":
+        'If the locality has no streets, tick "No street address".',
+    "toast.submitting": "Submitting...",
+    "toast.success": "Success!",
+    "toast.successDescription": "Patient information submitted.",
+    "toast.submitError": "Submission Error",
+    "toast.submitErrorFallback":
+        "Could not submit form. Please check connection or server logs.",
+    "toast.queued": "Saved to send later",
+    "toast.queuedDescription":
+        "The submission could not be sent. It is saved on this device and will be resent automatically.",
+
+    "submit.button": "Submit Patient Info",
+    "submit.submitting": "Submitting...",
+
+    "cache.clear": "Clear lookup cache",
+    "cache.cleared": "City and street lookups will be fetched fresh.",
+    "cache.clearFailed": "Could not clear the lookup cache.",
+    "connection.closed": "Address registry online",
+    "connection.half-open": "Reconnecting to the address registry…",
+    "connection.open": "Address registry unavailable, using saved data",
+    "outbox.button": "Unsent",
+    "outbox.pending": "{count} unsent submissions",
+    "outbox.title": "Unsent submissions",
+    "outbox.description":
+        "Kept encrypted on this device and resent automatically once the connection is back.",
+    "outbox.empty": "Nothing is waiting to be sent.",
+    "outbox.unreadable": "Saved data can no longer be read",
+    "outbox.savedAt": "Saved {time}",
+    "outbox.attempts": "Attempts: {count}",
+    "outbox.nextAttempt": "Next try {time}",
+    "outbox.stopped": "Not resent automatically",
+    "outbox.failed": "Gave up resending automatically after many attempts",
+    "outbox.showData": "Show data",
+    "outbox.retry": "Send now",
+    "outbox.retryFailed": "Could not send it yet.",
+    "outbox.discard": "Discard",
+    "outbox.confirmDiscard": "Discard for good?",
+    "outbox.discardFailed": "Could not discard the submission.",
+    "outbox.delivered": "Saved submission sent",
+} as const;
+
+export type TranslationKey = keyof typeof en;
+
+const he: Record<TranslationKey, string> = {
+    "app.title": "רישום מטופל חדש",
+    "app.language": "שפה",
+
+    "common.optional": "אופציונלי",
+    "common.loading": "טוען...",
+    "common.typeMoreToSearch": "המשיכו להקליד כדי לחפש",
+    "common.searchFailed": "החיפוש נכשל, נסו שוב",
+    "common.noResults": "לא נמצאו תוצאות.",
+    "common.createValue": 'שימוש ב-"{value}"',
+    "common.firstName": "שם פרטי",
+    "common.lastName": "שם משפחה",
+
+    "patient.sectionTitle": "פרטי המטופל",
+    "patient.firstNamePlaceholder": "הזינו שם פרטי",
+    "patient.lastNamePlaceholder": "הזינו שם משפחה",
+
+    "identifier.typeLabel": "סוג מזהה",
+    "identifier.typePlaceholder": "בחרו סוג מזהה",
+    "identifier.IsraeliId.option": "תעודת זהות",
+    "identifier.IsraeliId.label": "מספר זהות",
+    "identifier.IsraeliId.placeholder": "הזינו מספר זהות בן 9 ספרות",
+    "identifier.Passport.option": "דרכון",
+    "identifier.Passport.label": "מספר דרכון",
+    "identifier.Passport.placeholder": "הזינו מספר דרכון",
+    "identifier.ForeignResident.option": "מזהה זר",
+    "identifier.ForeignResident.label": "מספר תושב זר",
+    "identifier.ForeignResident.placeholder": "הזינו מספר מזהה זר",
+    "identifier.Temporary.option": "מספר זמני",
+    "identifier.Temporary.label": "מספר זמני של בית החולים",
+    "identifier.Temporary.placeholder": "הזינו מספר זמני",
+    "identifier.issuingCountry": "מדינה מנפיקה",
+    "identifier.issuingCountryPlaceholder": "קוד בן 3 אותיות, למשל USA",
+
+    "idHint.ok": "ספרת הביקורת תקינה",
+    "idHint.mismatch":
+        "ספרת הביקורת אינה תואמת. אם שאר הספרות נכונות, הספרה האחרונה צריכה להיות {expected} - ייתכן שזו שגיאת הקלדה.",
+
+    "dob.label": "תאריך לידה",
+    "dob.age": "גיל: {age}",
+    "dob.ageMinor": "גיל: {age} (קטין - נדרשים פרטי אפוטרופוס)",
+
+    "hmo.label": "קופת חולים",
+    "hmo.placeholder": "בחרו קופת חולים",
+    "hmo.Clalit": "כללית",
+    "hmo.Maccabi": "מכבי",
+    "hmo.Mehuedet": "מאוחדת",
+    "hmo.Leumit": "לאומית",
+
+    "guardian.sectionTitle": "אפוטרופוס",
+    "guardian.firstNamePlaceholder": "שם פרטי של האפוטרופוס",
+    "guardian.lastNamePlaceholder": "שם משפחה של האפוטרופוס",
+    "guardian.idLabel": "מספר זהות של האפוטרופוס",
+    "guardian.idPlaceholder": "הזינו מספר זהות בן 9 ספרות",
+    "guardian.relationshipLabel": "קרבה למטופל",
+    "guardian.relationshipPlaceholder": "בחרו קרבה",
+    "guardian.phoneLabel": "טלפון האפוטרופוס",
+
+    "relationship.Parent": "הורה",
+    "relationship.LegalGuardian": "אפוטרופוס חוקי",
+    "relationship.Grandparent": "סבא/סבתא",
+    "relationship.Sibling": "אח/אחות",
+    "relationship.Spouse": "בן/בת זוג",
+    "relationship.Child": "ילד/ה",
+    "relationship.Friend": "חבר/ה",
+    "relationship.Other": "אחר",
+
+    "phones.sectionTitle": "מספרי טלפון",
+    "phones.add": "הוספת טלפון",
+    "phones.addAria": "הוספת מספר טלפון",
+    "phones.removeAria": "הסרת מספר טלפון",
+    "phone.typeLabel": "סוג",
+    "phone.typePlaceholder": "סוג",
+    "phone.setMain": "הגדרה כטלפון ראשי",
+    "phone.countryLabel": "מדינה",
+    "phone.numberLabel": "מספר",
+    "phone.numberPlaceholder": "מספר טלפון",
+    "phoneType.Mobile": "נייד",
+    "phoneType.Home": "בית",
+    "phoneType.Work": "עבודה",
+    "phoneType.Other": "אחר",
+
+    "contacts.sectionTitle": "אנשי קשר לחירום",
+    "contacts.add": "הוספת איש קשר",
+    "contacts.addAria": "הוספת איש קשר לחירום",
+    "contacts.removeAria": "הסרת איש קשר לחירום",
+    "contacts.empty": "לא נוספו אנשי קשר לחירום.",
+    "contact.nameLabel": "שם",
+    "contact.namePlaceholder": "שם איש הקשר",
+    "contact.relationshipLabel": "קרבה",
+    "contact.relationshipPlaceholder": "קרבה",
+
+    "addresses.sectionTitle": "כתובות",
+    "addresses.add": "הוספת כתובת",
+    "addresses.addAria": "הוספת כתובת",
+    "addresses.removeAria": "הסרת כתובת",
+    "address.typeLabel": "סוג כתובת",
+    "address.typePlaceholder": "סוג",
+    "addressType.Home": "בית",
+    "addressType.Work": "עבודה",
+    "addressType.Other": "אחר",
+    "address.cityLabel": "יישוב",
+    "address.cityPlaceholder": "בחרו יישוב...",
+    "address.citySearch": "חיפוש יישוב...",
+    "address.noCity": "לא נמצא יישוב.",
+    "address.streetLabel": "רחוב",
+    "address.streetPlaceholder": "בחרו רחוב...",
+    "address.streetSearch": "חיפוש רחוב...",
+    "address.noStreet": "לא נמצא רחוב.",
+    "address.selectCityFirst": "יש לבחור יישוב תחילה.",
+    "address.localityOnly": "אין כתובת רחוב (יישוב בלבד)",
+    "address.streetNumber": "מספר בית",
+    "address.streetNumberPlaceholder": "למשל 12א",
+    "address.entrance": "כניסה",
+    "address.floor": "קומה",
+    "address.apartment": "דירה",
+    "address.addressLine": "שורת כתובת",
+    "address.addressLinePlaceholder": "למשל שכונה ב', בית 12",
+    "address.poBox": "תא דואר",
+    "address.postalCode": "מיקוד",
+    "address.postalCodePlaceholder": "7 ספרות (אופציונלי)",
+    "address.comments": "הערות לכתובת",
+    "address.commentsPlaceholder": "הערות אופציונליות (למשל קוד שער, הכוונה)",
+
+    "toast.citiesError": "שגיאה בטעינת יישובים",
+    "toast.citiesErrorFallback": "לא ניתן לטעון את נתוני היישובים.",
+    "toast.streetsError": "שגיאה בטעינת רחובות",
+    "toast.streetsErrorFallback": "לא ניתן לטעון את נתוני הרחובות.",
+    "toast.streetCheckFailed": "לא ניתן לבדוק את הרחובות ביישוב זה",
+    "toast.streetCheckHint": 'אם אין ביישוב רחובות, סמנו "אין כתובת רחוב".',
+    "toast.submitting": "שולח...",
+    "toast.success": "בוצע בהצלחה!",
+    "toast.successDescription": "פרטי המטופל נשלחו.",
+    "toast.submitError": "שגיאה בשליחה",
+    "toast.submitErrorFallback":
+        "לא ניתן לשלוח את הטופס. בדקו את החיבור או את יומני השרת.",
+    "toast.queued": "נשמר לשליחה מאוחרת",
+    "toast.queuedDescription":
+        "לא ניתן היה לשלוח את הטופס. הוא נשמר במכשיר זה ויישלח שוב אוטומטית.",
+
+    "submit.button": "שליחת פרטי המטופל",
+    "submit.submitting": "שולח...",
+
+    "cache.clear": "ניקוי מטמון החיפוש",
+    "cache.cleared": "יישובים ורחובות ייטענו מחדש.",
+    "cache.clearFailed": "לא ניתן לנקות את מטמון החיפוש.",
+    "connection.closed": "מאגר הכתובות זמין",
+    "connection.half-open": "מתחבר מחדש למאגר הכתובות…",
+    "connection.open": "מאגר הכתובות אינו זמין, מוצגים נתונים שמורים",
+    "outbox.button": "לא נשלחו",
+    "outbox.pending": "{count} טפסים שלא נשלחו",
+    "outbox.title": "טפסים שלא נשלחו",
+    "outbox.description":
+        "נשמרים מוצפנים במכשיר זה ונשלחים שוב אוטומטית כשהחיבור חוזר.",
+    "outbox.empty": "אין טפסים הממתינים לשליחה.",
+    "outbox.unreadable": "לא ניתן עוד לקרוא את הנתונים השמורים",
+    "outbox.savedAt": "נשמר {time}",
+    "outbox.attempts": "ניסיונות: {count}",
+    "outbox.nextAttempt": "ניסיון הבא {time}",
+    "outbox.stopped": "לא יישלח שוב אוטומטית",
+    "outbox.failed": "השליחה האוטומטית הופסקה אחרי ניסיונות רבים",
+    "outbox.showData": "הצגת הנתונים",
+    "outbox.retry": "שליחה עכשיו",
+    "outbox.retryFailed": "עדיין לא ניתן לשלוח.",
+    "outbox.discard": "מחיקה",
+    "outbox.confirmDiscard": "למחוק לצמיתות?",
+    "outbox.discardFailed": "לא ניתן למחוק את הטופס.",
+    "outbox.delivered": "טופס שמור נשלח",
+};
+
+const ar: Record<TranslationKey, string> = {
+    "app.title": "تسجيل مريض جديد",
+    "app.language": "اللغة",
+
+    "common.optional": "اختياري",
+    "common.loading": "جارٍ التحميل...",
+    "common.typeMoreToSearch": "تابع الكتابة للبحث",
+    "common.searchFailed": "فشل البحث، يرجى المحاولة مرة أخرى",
+    "common.noResults": "لا توجد نتائج.",
+    "common.createValue": 'استخدام "{value}"',
+    "common.firstName": "الاسم الشخصي",
+    "common.lastName": "اسم العائلة",
+
+    "patient.sectionTitle": "معلومات المريض",
+    "patient.firstNamePlaceholder": "أدخل الاسم الشخصي",
+    "patient.lastNamePlaceholder": "أدخل اسم العائلة",
+
+    "identifier.typeLabel": "نوع المعرّف",
+    "identifier.typePlaceholder": "اختر نوع المعرّف",
+    "identifier.IsraeliId.option": "هوية إسرائيلية",
+    "identifier.IsraeliId.label": "رقم هوية المريض",
+    "identifier.IsraeliId.placeholder": "أدخل رقم هوية من 9 أرقام",
+    "identifier.Passport.option": "جواز سفر",
+    "identifier.Passport.label": "رقم جواز السفر",
+    "identifier.Passport.placeholder": "أدخل رقم جواز السفر",
+    "identifier.ForeignResident.option": "هوية أجنبية",
+    "identifier.ForeignResident.label": "رقم المقيم الأجنبي",
+    "identifier.ForeignResident.placeholder": "أدخل رقم الهوية الأجنبية",
+    "identifier.Temporary.option": "رقم مؤقت",
+    "identifier.Temporary.label": "رقم المستشفى المؤقت",
+    "identifier.Temporary.placeholder": "أدخل الرقم المؤقت",
+    "identifier.issuingCountry": "الدولة المُصدِرة",
+    "identifier.issuingCountryPlaceholder": "رمز من 3 أحرف، مثال USA",
+
+    "idHint.ok": "رقم التحقق صحيح",
+    "idHint.mismatch":
+        "رقم التحقق غير مطابق. إذا كانت بقية الأرقام صحيحة، يجب أن يكون الرقم الأخير {expected} - ربما خطأ في الكتابة.",
+
+    "dob.label": "تاريخ الميلاد",
+    "dob.age": "العمر: {age}",
+    "dob.ageMinor": "العمر: {age} (قاصر - بيانات الوصي مطلوبة)",
+
+    "hmo.label": "صندوق المرضى",
+    "hmo.placeholder": "اختر صندوق المرضى",
+    "hmo.Clalit": "كلاليت",
+    "hmo.Maccabi": "مكابي",
+    "hmo.Mehuedet": "مئوحيدت",
+    "hmo.Leumit": "لئوميت",
+
+    "guardian.sectionTitle": "الوصي",
+    "guardian.firstNamePlaceholder": "الاسم الشخصي للوصي",
+    "guardian.lastNamePlaceholder": "اسم عائلة الوصي",
+    "guardian.idLabel": "رقم هوية الوصي",
+    "guardian.idPlaceholder": "أدخل رقم هوية من 9 أرقام",
+    "guardian.relationshipLabel": "صلة القرابة بالمريض",
+    "guardian.relationshipPlaceholder": "اختر صلة القرابة",
+    "guardian.phoneLabel": "هاتف الوصي",
+
+    "relationship.Parent": "أحد الوالدين",
+    "relationship.LegalGuardian": "وصي قانوني",
+    "relationship.Grandparent": "جد/جدة",
+    "relationship.Sibling": "أخ/أخت",
+    "relationship.Spouse": "زوج/زوجة",
+    "relationship.Child": "ابن/ابنة",
+    "relationship.Friend": "صديق/صديقة",
+    "relationship.Other": "آخر",
+
+    "phones.sectionTitle": "أرقام الهاتف",
+    "phones.add": "إضافة هاتف",
+    "phones.addAria": "إضافة رقم هاتف",
+    "phones.removeAria": "إزالة رقم الهاتف",
+    "phone.typeLabel": "النوع",
+    "phone.typePlaceholder": "النوع",
+    "phone.setMain": "تعيين كهاتف رئيسي",
+    "phone.countryLabel": "الدولة",
+    "phone.numberLabel": "الرقم",
+    "phone.numberPlaceholder": "رقم الهاتف",
+    "phoneType.Mobile": "محمول",
+    "phoneType.Home": "منزل",
+    "phoneType.Work": "عمل",
+    "phoneType.Other": "آخر",
+
+    "contacts.sectionTitle": "جهات الاتصال للطوارئ",
+    "contacts.add": "إضافة جهة اتصال",
+    "contacts.addAria": "إضافة جهة اتصال للطوارئ",
+    "contacts.removeAria": "إزالة جهة الاتصال للطوارئ",
+    "contacts.empty": "لم تتم إضافة جهات اتصال للطوارئ.",
+    "contact.nameLabel": "الاسم",
+    "contact.namePlaceholder": "اسم جهة الاتصال",
+    "contact.relationshipLabel": "صلة القرابة",
+    "contact.relationshipPlaceholder": "صلة القرابة",
+
+    "addresses.sectionTitle": "العناوين",
+    "addresses.add": "إضافة عنوان",
+    "addresses.addAria": "إضافة عنوان",
+    "addresses.removeAria": "إزالة العنوان",
+    "address.typeLabel": "نوع العنوان",
+    "address.typePlaceholder": "النوع",
+    "addressType.Home": "منزل",
+    "addressType.Work": "عمل",
+    "addressType.Other": "آخر",
+    "address.cityLabel": "البلدة",
+    "address.cityPlaceholder": "اختر البلدة...",
+    "address.citySearch": "ابحث عن بلدة...",
+    "address.noCity": "لم يتم العثور على بلدة.",
+    "address.streetLabel": "الشارع",
+    "address.streetPlaceholder": "اختر الشارع...",
+    "address.streetSearch": "ابحث عن شارع...",
+    "address.noStreet": "لم يتم العثور على شارع.",
+    "address.selectCityFirst": "اختر البلدة أولاً.",
+    "address.localityOnly": "لا يوجد عنوان شارع (البلدة فقط)",
+    "address.streetNumber": "رقم البيت",
+    "address.streetNumberPlaceholder": "مثال 12א",
+    "address.entrance": "المدخل",
+    "address.floor": "الطابق",
+    "address.apartment": "الشقة",
+    "address.addressLine": "سطر العنوان",
+    "address.addressLinePlaceholder": "مثال: الحي ب، بيت 12",
+    "address.poBox": "صندوق البريد",
+    "address.postalCode": "الرمز البريدي",
+    "address.postalCodePlaceholder": "7 أرقام (اختياري)",
+    "address.comments": "ملاحظات العنوان",
+    "address.commentsPlaceholder": "ملاحظات اختيارية (مثال: رمز البوابة، إرشادات)",
+
+    "toast.citiesError": "خطأ في جلب البلدات",
+    "toast.citiesErrorFallback": "تعذّر جلب بيانات البلدات.",
+    "toast.streetsError": "خطأ في جلب الشوارع",
+    "toast.streetsErrorFallback": "تعذّر جلب بيانات الشوارع.",
+    "toast.streetCheckFailed": "تعذّر التحقق من شوارع هذه البلدة",
+    "toast.streetCheckHint":
+        'إذا لم تكن في البلدة شوارع، حدّد "لا يوجد عنوان شارع".',
+    "toast.submitting": "جارٍ الإرسال...",
+    "toast.success": "تم بنجاح!",
+    "toast.successDescription": "تم إرسال معلومات المريض.",
+    "toast.submitError": "خطأ في الإرسال",
+    "toast.submitErrorFallback":
+        "تعذّر إرسال النموذج. يرجى التحقق من الاتصال أو سجلات الخادم.",
+    "toast.queued": "تم الحفظ للإرسال لاحقًا",
+    "toast.queuedDescription":
+        "تعذّر إرسال النموذج. تم حفظه على هذا الجهاز وسيُعاد إرساله تلقائيًا.",
+
+    "submit.button": "إرسال معلومات المريض",
+    "submit.submitting": "جارٍ الإرسال...",
+
+    "cache.clear": "مسح ذاكرة البحث المؤقتة",
+    "cache.cleared": "سيتم جلب البلدات والشوارع من جديد.",
+    "cache.clearFailed": "تعذّر مسح ذاكرة البحث المؤقتة.",
+    "connection.closed": "سجل العناوين متاح",
+    "connection.half-open": "جارٍ إعادة الاتصال بسجل العناوين…",
+    "connection.open": "سجل العناوين غير متاح، يتم استخدام البيانات المحفوظة",
+    "outbox.button": "غير مُرسلة",
+    "outbox.pending": "{count} نماذج غير مُرسلة",
+    "outbox.title": "نماذج غير مُرسلة",
+    "outbox.description":
+        "محفوظة بشكل مشفّر على هذا الجهاز ويُعاد إرسالها تلقائيًا عند عودة الاتصال.",
+    "outbox.empty": "لا يوجد ما ينتظر الإرسال.",
+    "outbox.unreadable": "لم يعد بالإمكان قراءة البيانات المحفوظة",
+    "outbox.savedAt": "حُفظ {time}",
+    "outbox.attempts": "المحاولات: {count}",
+    "outbox.nextAttempt": "المحاولة التالية {time}",
+    "outbox.stopped": "لن يُعاد إرساله تلقائيًا",
+    "outbox.failed": "توقفت إعادة الإرسال التلقائي بعد محاولات عديدة",
+    "outbox.showData": "عرض البيانات",
+    "outbox.retry": "إرسال الآن",
+    "outbox.retryFailed": "تعذّر الإرسال حتى الآن.",
+    "outbox.discard": "حذف",
+    "outbox.confirmDiscard": "حذف نهائيًا؟",
+    "outbox.discardFailed": "تعذّر حذف النموذج.",
+    "outbox.delivered": "تم إرسال نموذج محفوظ",
+};
+
+const ru: Record<TranslationKey, string> = {
+    "app.title": "Регистрация нового пациента",
+    "app.language": "Язык",
+
+    "common.optional": "Необязательно",
+    "common.loading": "Загрузка...",
+    "common.typeMoreToSearch": "Продолжайте ввод для поиска",
+    "common.searchFailed": "Поиск не удался, попробуйте ещё раз",
+    "common.noResults": "Ничего не найдено.",
+    "common.createValue": "Использовать «{value}»",
+    "common.firstName": "Имя",
+    "common.lastName": "Фамилия",
+
+    "patient.sectionTitle": "Данные пациента",
+    "patient.firstNamePlaceholder": "Введите имя",
+    "patient.lastNamePlaceholder": "Введите фамилию",
+
+    "identifier.typeLabel": "Тип документа",
+    "identifier.typePlaceholder": "Выберите тип документа",
+    "identifier.IsraeliId.option": "Израильское удостоверение",
+    "identifier.IsraeliId.label": "Номер удостоверения",
+    "identifier.IsraeliId.placeholder": "Введите 9-значный номер",
+    "identifier.Passport.option": "Паспорт",
+    "identifier.Passport.label": "Номер паспорта",
+    "identifier.Passport.placeholder": "Введите номер паспорта",
+    "identifier.ForeignResident.option": "Иностранный документ",
+    "identifier.ForeignResident.label": "Номер иностранного резидента",
+    "identifier.ForeignResident.placeholder": "Введите номер документа",
+    "identifier.Temporary.option": "Временный номер",
+    "identifier.Temporary.label": "Временный номер больницы",
+    "identifier.Temporary.placeholder": "Введите временный номер",
+    "identifier.issuingCountry": "Страна выдачи",
+    "identifier.issuingCountryPlaceholder": "Трёхбуквенный код, например USA",
+
+    "idHint.ok": "Контрольная цифра верна",
+    "idHint.mismatch":
+        "Контрольная цифра не совпадает. Если остальные цифры верны, последняя должна быть {expected} - возможно, опечатка.",
+
+    "dob.label": "Дата рождения",
+    "dob.age": "Возраст: {age}",
+    "dob.ageMinor": "Возраст: {age} (несовершеннолетний - нужны данные опекуна)",
+
+    "hmo.label": "Больничная касса",
+    "hmo.placeholder": "Выберите больничную кассу",
+    "hmo.Clalit": "Клалит",
+    "hmo.Maccabi": "Маккаби",
+    "hmo.Mehuedet": "Меухедет",
+    "hmo.Leumit": "Леумит",
+
+    "guardian.sectionTitle": "Опекун",
+    "guardian.firstNamePlaceholder": "Имя опекуна",
+    "guardian.lastNamePlaceholder": "Фамилия опекуна",
+    "guardian.idLabel": "Номер удостоверения опекуна",
+    "guardian.idPlaceholder": "Введите 9-значный номер",
+    "guardian.relationshipLabel": "Кем приходится пациенту",
+    "guardian.relationshipPlaceholder": "Выберите степень родства",
+    "guardian.phoneLabel": "Телефон опекуна",
+
+    "relationship.Parent": "Родитель",
+    "relationship.LegalGuardian": "Законный опекун",
+    "relationship.Grandparent": "Дедушка/бабушка",
+    "relationship.Sibling": "Брат/сестра",
+    "relationship.Spouse": "Супруг(а)",
+    "relationship.Child": "Ребёнок",
+    "relationship.Friend": "Друг",
+    "relationship.Other": "Другое",
+
+    "phones.sectionTitle": "Номера телефонов",
+    "phones.add": "Добавить телефон",
+    "phones.addAria": "Добавить номер телефона",
+    "phones.removeAria": "Удалить номер телефона",
+    "phone.typeLabel": "Тип",
+    "phone.typePlaceholder": "Тип",
+    "phone.setMain": "Сделать основным",
+    "phone.countryLabel": "Страна",
+    "phone.numberLabel": "Номер",
+    "phone.numberPlaceholder": "Номер телефона",
+    "phoneType.Mobile": "Мобильный",
+    "phoneType.Home": "Домашний",
+    "phoneType.Work": "Рабочий",
+    "phoneType.Other": "Другой",
+
+    "contacts.sectionTitle": "Экстренные контакты",
+    "contacts.add": "Добавить контакт",
+    "contacts.addAria": "Добавить экстренный контакт",
+    "contacts.removeAria": "Удалить экстренный контакт",
+    "contacts.empty": "Экстренные контакты не добавлены.",
+    "contact.nameLabel": "Имя",
+    "contact.namePlaceholder": "Имя контакта",
+    "contact.relationshipLabel": "Кем приходится",
+    "contact.relationshipPlaceholder": "Кем приходится",
+
+    "addresses.sectionTitle": "Адреса",
+    "addresses.add": "Добавить адрес",
+    "addresses.addAria": "Добавить адрес",
+    "addresses.removeAria": "Удалить адрес",
+    "address.typeLabel": "Тип адреса",
+    "address.typePlaceholder": "Тип",
+    "addressType.Home": "Домашний",
+    "addressType.Work": "Рабочий",
+    "addressType.Other": "Другой",
+    "address.cityLabel": "Населённый пункт",
+    "address.cityPlaceholder": "Выберите населённый пункт...",
+    "address.citySearch": "Поиск населённого пункта...",
+    "address.noCity": "Населённый пункт не найден.",
+    "address.streetLabel": "Улица",
+    "address.streetPlaceholder": "Выберите улицу...",
+    "address.streetSearch": "Поиск улицы...",
+    "address.noStreet": "Улица не найдена.",
+    "address.selectCityFirst": "Сначала выберите населённый пункт.",
+    "address.localityOnly": "Нет адреса с улицей (только населённый пункт)",
+    "address.streetNumber": "Номер дома",
+    "address.streetNumberPlaceholder": "например, 12א",
+    "address.entrance": "Подъезд",
+    "address.floor": "Этаж",
+    "address.apartment": "Квартира",
+    "address.addressLine": "Строка адреса",
+    "address.addressLinePlaceholder": "например, квартал Б, дом 12",
+    "address.poBox": "Абонентский ящик",
+    "address.postalCode": "Почтовый индекс",
+    "address.postalCodePlaceholder": "7 цифр (необязательно)",
+    "address.comments": "Комментарии к адресу",
+    "address.commentsPlaceholder":
+        "Необязательные заметки (например, код ворот, как пройти)",
+
+    "toast.citiesError": "Ошибка загрузки населённых пунктов",
+    "toast.citiesErrorFallback": "Не удалось загрузить населённые пункты.",
+    "toast.streetsError": "Ошибка загрузки улиц",
+    "toast.streetsErrorFallback": "Не удалось загрузить улицы.",
+    "toast.streetCheckFailed": "Не удалось проверить улицы этого населённого пункта",
+    "toast.streetCheckHint":
+        "Если в населённом пункте нет улиц, отметьте «Нет адреса с улицей».",
+    "toast.submitting": "Отправка...",
+    "toast.success": "Готово!",
+    "toast.successDescription": "Данные пациента отправлены.",
+    "toast.submitError": "Ошибка отправки",
+    "toast.submitErrorFallback":
+        "Не удалось отправить форму. Проверьте подключение или журналы сервера.",
+    "toast.queued": "Сохранено для отправки позже",
+    "toast.queuedDescription":
+        "Не удалось отправить форму. Она сохранена на этом устройстве и будет отправлена автоматически.",
+
+    "submit.button": "Отправить данные пациента",
+    "submit.submitting": "Отправка...",
+
+    "cache.clear": "Очистить кэш поиска",
+    "cache.cleared": "Населённые пункты и улицы будут загружены заново.",
+    "cache.clearFailed": "Не удалось очистить кэш поиска.",
+    "connection.closed": "Реестр адресов доступен",
+    "connection.half-open": "Повторное подключение к реестру адресов…",
+    "connection.open": "Реестр адресов недоступен, используются сохранённые данные",
+    "outbox.button": "Не отправлено",
+    "outbox.pending": "Неотправленных форм: {count}",
+    "outbox.title": "Неотправленные формы",
+    "outbox.description":
+        "Хранятся на этом устройстве в зашифрованном виде и отправляются автоматически, когда появится связь.",
+    "outbox.empty": "Нет форм, ожидающих отправки.",
+    "outbox.unreadable": "Сохранённые данные больше не читаются",
+    "outbox.savedAt": "Сохранено {time}",
+    "outbox.attempts": "Попыток: {count}",
+    "outbox.nextAttempt": "Следующая попытка {time}",
+    "outbox.stopped": "Не отправляется автоматически",
+    "outbox.failed": "Автоматическая отправка прекращена после многих попыток",
+    "outbox.showData": "Показать данные",
+    "outbox.retry": "Отправить сейчас",
+    "outbox.retryFailed": "Пока не удалось отправить.",
+    "outbox.discard": "Удалить",
+    "outbox.confirmDiscard": "Удалить навсегда?",
+    "outbox.discardFailed": "Не удалось удалить форму.",
+    "outbox.delivered": "Сохранённая форма отправлена",
+};
+
+const catalogs: Record<Language, Record<TranslationKey, string>> = {
+    en,
+    he,
+    ar,
+    ru,
+};
+
+export type TranslationParams = Record<string, string | number>;
+
+/**
+ * Looks up a UI text in the given language, falling back to English.
+ * @param key The text's key.
+ * @param language The UI language.
+ * @param params Values for {placeholders} in the text.
+ * @returns The translated text.
+ */
+export function translate(
+    key: TranslationKey,
+    language: Language = DEFAULT_LANGUAGE,
+    params?: TranslationParams
+): string {
+    const template = catalogs[language][key] ?? en[key];
+    if (!params) {
+        return template;
+    }
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+        params[name] === undefined ? placeholder : String(params[name])
+    );
+}
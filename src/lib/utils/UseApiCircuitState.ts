@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from "react";
+import { apiCircuit } from "@/lib/api";
+
+/**
+ * Custom hook that follows the lookup API's circuit breaker, so the UI can
+ * tell staff when the registry is down and saved data is being shown.
+ *
+ * @returns "closed" (online), "open" (failing fast) or "half-open" (trying again).
+ */
+function useApiCircuitState() {
+    return useSyncExternalStore(apiCircuit.subscribe, apiCircuit.getState);
+}
+
+export default useApiCircuitState;
@@ -0,0 +1,90 @@
+import { useEffect, useReducer, useRef } from "react";
+
+// One lookup's lifecycle; "empty" is a finished lookup that found nothing
+export type LookupState<T> =
+    | { status: "idle" }
+    | { status: "loading" }
+    | { status: "success"; results: T[] }
+    | { status: "empty" }
+    | { status: "error"; error: Error };
+
+type LookupAction<T> =
+    | { type: "reset" }
+    | { type: "start" }
+    | { type: "resolve"; results: T[] }
+    | { type: "reject"; error: Error };
+
+function lookupReducer<T>(
+    _state: LookupState<T>,
+    action: LookupAction<T>
+): LookupState<T> {
+    switch (action.type) {
+        case "reset":
+            return { status: "idle" };
+        case "start":
+            return { status: "loading" };
+        case "resolve":
+            return action.results.length > 0
+                ? { status: "success", results: action.results }
+                : { status: "empty" };
+        case "reject":
+            return { status: "error", error: action.error };
+    }
+}
+
+interface AsyncLookupOptions {
+    onError?: (error: Error) => void; // E.g. show a toast; not called for cancelled lookups
+}
+
+/**
+ * Custom hook that runs a lookup whenever `load` changes and tracks its state.
+ * The previous lookup is aborted through its AbortSignal, and its late answer
+ * is ignored, so a slow old response can never replace newer results.
+ * Unmounting aborts the lookup in flight.
+ *
+ * @param load Memoized lookup (useCallback/useMemo), or null to stay idle.
+ * @param options Optional error callback.
+ * @returns The current LookupState.
+ */
+function useAsyncLookup<T>(
+    load: ((signal: AbortSignal) => Promise<T[]>) | null,
+    options: AsyncLookupOptions = {}
+): LookupState<T> {
+    const [state, dispatch] = useReducer(lookupReducer<T>, { status: "idle" });
+
+    // Latest callback without restarting the lookup when it changes identity
+    const onErrorRef = useRef(options.onError);
+    useEffect(() => {
+        onErrorRef.current = options.onError;
+    });
+
+    useEffect(() => {
+        if (!load) {
+            dispatch({ type: "reset" });
+            return;
+        }
+        const controller = new AbortController();
+        dispatch({ type: "start" });
+        load(controller.signal).then(
+            (results) => {
+                if (!controller.signal.aborted) {
+                    dispatch({ type: "resolve", results });
+                }
+            },
+            (error: unknown) => {
+                if (controller.signal.aborted) {
+                    return; // Superseded or unmounted; nobody is waiting for this
+                }
+                const lookupError =
+                    error instanceof Error ? error : new Error(String(error));
+                dispatch({ type: "reject", error: lookupError });
+                onErrorRef.current?.(lookupError);
+            }
+        );
+        return () => controller.abort();
+    }, [load]);
+
+    return state;
+}
+
+export default useAsyncLookup;
@@ -0,0 +1,25 @@
+import { useCallback, useState } from "react";
+import { clearLookupCache } from "@/lib/lookupCache";
+
+/**
+ * Custom hook for staff to empty the city/street lookup cache, e.g. after the
+ * registry was updated, so the next searches go to the live data.
+ *
+ * @returns `clearCache()` (rejects if clearing failed) and whether it is running.
+ */
+function useClearLookupCache() {
+    const [isClearing, setIsClearing] = useState(false);
+
+    const clearCache = useCallback(async () => {
+        setIsClearing(true);
+        try {
+            await clearLookupCache();
+        } finally {
+            setIsClearing(false);
+        }
+    }, []);
+
+    return { clearCache, isClearing };
+}
+
+export default useClearLookupCache;
@@ -0,0 +1,128 @@
+import { useEffect, useMemo, useRef } from "react";
+
+export interface DebounceOptions {
+    leading?: boolean; // Call at the start of a burst of calls (default false)
+    trailing?: boolean; // Call after the burst has been quiet for `delay` (default true)
+    maxWait?: number; // Longest a pending call may be put off, even while calls keep coming
+}
+
+export interface DebouncedFunction<Args extends unknown[]> {
+    (...args: Args): void;
+    /** Drops the pending call, if any */
+    cancel(): void;
+    /** Runs the pending call now, if any (e.g. on blur) */
+    flush(): void;
+    isPending(): boolean;
+}
+
+/**
+ * Custom hook that debounces a callback.
+ * Each burst of calls leads to at most one leading and one trailing call, with
+ * the latest arguments; `maxWait` adds calls in between during long bursts.
+ * The latest `callback` is always the one called, so it need not be memoized.
+ * A pending call is made right away when `delay` or the options change (e.g.
+ * a delay switched to 0), and dropped on unmount.
+ *
+ * @param callback The function to debounce.
+ * @param delay The quiet time in milliseconds that ends a burst.
+ * @param options Leading/trailing edges and maxWait.
+ * @returns A stable debounced function with cancel(), flush() and isPending().
+ */
+function useDebouncedCallback<Args extends unknown[]>(
+    callback: (...args: Args) => void,
+    delay: number,
+    { leading = false, trailing = true, maxWait }: DebounceOptions = {}
+): DebouncedFunction<Args> {
+    const callbackRef = useRef(callback);
+    useEffect(() => {
+        callbackRef.current = callback;
+    });
+
+    // Declared before the effect below, so its cleanup runs first on unmount
+    const unmountingRef = useRef(false);
+    useEffect(() => {
+        unmountingRef.current = false;
+        return () => {
+            unmountingRef.current = true;
+        };
+    }, []);
+
+    const debounced = useMemo(() => {
+        let waitTimer: ReturnType<typeof setTimeout> | undefined;
+        let maxWaitTimer: ReturnType<typeof setTimeout> | undefined;
+        let pendingArgs: Args | null = null; // Arguments of a call not made yet
+
+        const invokePending = () => {
+            if (pendingArgs) {
+                const args = pendingArgs;
+                pendingArgs = null;
+                callbackRef.current(...args);
+            }
+        };
+
+        const clearTimers = () => {
+            clearTimeout(waitTimer);
+            clearTimeout(maxWaitTimer);
+            waitTimer = undefined;
+            maxWaitTimer = undefined;
+        };
+
+        // End of the burst
+        const onWaitEnd = () => {
+            clearTimers();
+            if (trailing) {
+                invokePending();
+            }
+            pendingArgs = null;
+        };
+
+        // The burst is still going, but the pending call has waited long enough
+        const onMaxWait = () => {
+            invokePending();
+            maxWaitTimer = setTimeout(onMaxWait, maxWait);
+        };
+
+        const fn = (...args: Args) => {
+            pendingArgs = args;
+            if (waitTimer === undefined) {
+                if (leading) {
+                    invokePending();
+                }
+                if (maxWait !== undefined) {
+                    maxWaitTimer = setTimeout(onMaxWait, maxWait);
+                }
+            }
+            clearTimeout(waitTimer);
+            waitTimer = setTimeout(onWaitEnd, delay);
+        };
+
+        return Object.assign(fn, {
+            cancel: () => {
+                clearTimers();
+                pendingArgs = null;
+            },
+            flush: () => {
+                clearTimers();
+                invokePending();
+            },
+            isPending: () => waitTimer !== undefined,
+        });
+    }, [delay, leading, trailing, maxWait]);
+
+    // Options changed: the new debouncer takes over, so make the old one's
+    // pending call now instead of losing it. Unmounting: drop it.
+    useEffect(
+        () => () => {
+            if (unmountingRef.current) {
+                debounced.cancel();
+            } else {
+                debounced.flush();
+            }
+        },
+        [debounced]
+    );
+
+    return debounced;
+}
+
+export default useDebouncedCallback;
@@ -0,0 +1,14 @@
+import { useContext } from "react";
+import { LanguageContext, type LanguageContextValue } from "@/lib/languageContext";
+
+/**
+ * Custom hook that returns the active UI language and a setter for it.
+ * Must be used below <LanguageProvider>; outside it, the default language is returned.
+ *
+ * @returns The current language and the function that changes it.
+ */
+function useLanguage(): LanguageContextValue {
+    return useContext(LanguageContext);
+}
+
+export default useLanguage;
@@ -0,0 +1,75 @@
+import {
+    useCallback,
+    useEffect,
+    useRef,
+    useState,
+    useSyncExternalStore,
+} from "react";
+import { submissionOutbox, type OutboxItem } from "@/lib/outbox";
+
+interface UseSubmissionOutboxOptions {
+    /** Loads the queued items and keeps them current, e.g. while a list is shown */
+    listItems?: boolean;
+    /** Called for each queued submission that got delivered */
+    onDelivered?: (item: OutboxItem) => void;
+}
+
+/**
+ * Custom hook that runs the submission outbox (resending failed submissions)
+ * while mounted, and exposes it to the UI.
+ *
+ * @param options Whether to load the items, and a delivery callback.
+ * @returns The queued count, the items (when listed), and `retry`/`discard`.
+ */
+function useSubmissionOutbox({
+    listItems = false,
+    onDelivered,
+}: UseSubmissionOutboxOptions = {}) {
+    const count = useSyncExternalStore(
+        submissionOutbox.subscribe,
+        submissionOutbox.getCount
+    );
+    const [items, setItems] = useState<OutboxItem[]>([]);
+
+    // Held in a ref so a new callback each render doesn't restart the outbox
+    const onDeliveredRef = useRef(onDelivered);
+    useEffect(() => {
+        onDeliveredRef.current = onDelivered;
+    });
+
+    useEffect(
+        () => submissionOutbox.start((item) => onDeliveredRef.current?.(item)),
+        []
+    );
+
+    useEffect(() => {
+        if (!listItems) return;
+        let ignore = false;
+        const load = () => {
+            submissionOutbox
+                .list()
+                .then((next) => {
+                    if (!ignore) setItems(next);
+                })
+                .catch((error) =>
+                    console.error("Failed to list outbox:", error)
+                );
+        };
+        load();
+        const unsubscribe = submissionOutbox.subscribe(load);
+        return () => {
+            ignore = true;
+            unsubscribe();
+        };
+    }, [listItems]);
+
+    const retry = useCallback((id: string) => submissionOutbox.retry(id), []);
+    const discard = useCallback(
+        (id: string) => submissionOutbox.discard(id),
+        []
+    );
+
+    return { count, items, retry, discard };
+}
+
+export default useSubmissionOutbox;
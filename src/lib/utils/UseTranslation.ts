@@ -0,0 +1,29 @@
+import { useCallback } from "react";
+import { getLanguageDirection } from "@/lib/i18n";
+import {
+    translate,
+    type TranslationKey,
+    type TranslationParams,
+} from "@/lib/translations";
+import useLanguage from "./UseLanguage";
+
+/**
+ * Custom hook that returns a translator bound to the active UI language,
+ * plus the language itself and its text direction.
+ * `t` only changes identity when the language changes.
+ *
+ * @returns `t(key, params?)`, the current language and its direction.
+ */
+function useTranslation() {
+    const { language } = useLanguage();
+
+    const t = useCallback(
+        (key: TranslationKey, params?: TranslationParams) =>
+            translate(key, language, params),
+        [language]
+    );
+
+    return { t, language, dir: getLanguageDirection(language) };
+}
+
+export default useTranslation;
@@ -1,5 +1,22 @@
 // src/lib/validators.ts
 
+const ISRAEL_DIAL_CODE = "972";
+
+/**
+ * Computes the check digit (9th digit) for the first 8 digits of an Israeli ID.
+ * @param firstEight Exactly 8 digits.
+ * @returns The expected check digit (0-9).
+ */
+export function getIsraeliIdCheckDigit(firstEight: string): number {
+    let sum = 0;
+    for (let i = 0; i < 8; i++) {
+        const digit = Number(firstEight[i]);
+        const step = digit * ((i % 2) + 1);
+        sum += step > 9 ? step - 9 : step;
+    }
+    return (10 - (sum % 10)) % 10;
+}
+
 /**
  * Validates an Israeli ID number using the Luhn algorithm variant.
  * @param id The ID string to validate (should be 9 digits).
@@ -10,13 +27,66 @@ export function isValidIsraeliId(id: string): boolean {
         // Ensure exactly 9 digits
         return false;
     }
-    let sum = 0;
-    for (let i = 0; i < 9; i++) {
-        let digit = Number(id[i]);
-        let step = digit * ((i % 2) + 1);
-        sum += step > 9 ? step - 9 : step;
+    return getIsraeliIdCheckDigit(id.slice(0, 8)) === Number(id[8]);
+}
+
+/**
+ * Normalizes an Israeli ID as typed by staff: strips separators (spaces, dashes,
+ * dots, slashes) and left-pads older 5-8 digit IDs with zeros to 9 digits.
+ * Input that still doesn't look like an ID is returned without separators,
+ * so validation can report it.
+ * @param id The raw ID input.
+ * @returns The normalized ID string.
+ */
+export function normalizeIsraeliId(id: string): string {
+    const cleaned = id.replace(/[\s\-./]/g, "");
+    if (/^\d{5,8}$/.test(cleaned)) {
+        return cleaned.padStart(9, "0");
     }
-    return sum % 10 === 0;
+    return cleaned;
+}
+
+export type IsraeliIdFeedback =
+    | { status: "incomplete" } // Fewer than 9 digits typed (or not digits at all)
+    | { status: "valid"; normalized: string }
+    | {
+          status: "invalidCheckDigit";
+          normalized: string;
+          // The check digit the first 8 digits call for, useful as a typo hint
+          expectedCheckDigit: number;
+      };
+
+/**
+ * Live check-digit feedback for an Israeli ID while it is being typed.
+ * Short IDs aren't zero-padded here: "12345" is as likely the start of a
+ * 9-digit ID as an old 5-digit one. The form pads them on blur.
+ * @param id The raw ID input.
+ * @returns Whether 9 digits have been typed and, if so, whether the check digit matches.
+ */
+export function getIsraeliIdFeedback(id: string): IsraeliIdFeedback {
+    const normalized = id.replace(/[\s\-./]/g, "");
+    if (!/^\d{9}$/.test(normalized)) {
+        return { status: "incomplete" };
+    }
+    const expectedCheckDigit = getIsraeliIdCheckDigit(normalized.slice(0, 8));
+    return expectedCheckDigit === Number(normalized[8])
+        ? { status: "valid", normalized }
+        : { status: "invalidCheckDigit", normalized, expectedCheckDigit };
+}
+
+/**
+ * Converts an Israeli phone number in domestic (05X...) or international
+ * (+972 / 00972 / 972) form to its domestic digits-only form.
+ */
+function toIsraeliDomesticDigits(phone: string): string {
+    // Remove all non-digit characters
+    const cleaned = phone.replace(/\D/g, "");
+    const match = cleaned.match(/^(?:00)?972(\d+)$/);
+    if (!match) {
+        return cleaned;
+    }
+    // Some people keep the trunk 0 after the country code (+972-0501234567)
+    return `0${match[1].replace(/^0/, "")}`;
 }
 
 export function isValidIsraeliPhoneNumber(phone: string): boolean {
@@ -24,8 +94,7 @@ export function isValidIsraeliPhoneNumber(phone: string): boolean {
         return false;
     }
 
-    // Remove all non-digit characters
-    const cleaned = phone.replace(/\D/g, "");
+    const cleaned = toIsraeliDomesticDigits(phone);
 
     // Regex for domestic format: Starts with 0, followed by a valid prefix, then 7 digits.
     // Prefixes: 02, 03, 04, 08, 09 (Landlines)
@@ -35,3 +104,67 @@ export function isValidIsraeliPhoneNumber(phone: string): boolean {
 
     return israelPhoneRegex.test(cleaned);
 }
+
+/** What toE164PhoneNumber needs to know about a country (see PHONE_COUNTRIES) */
+export interface PhoneNumberRules {
+    dialCode: string; // Without "+", e.g. "972"
+    trunkPrefix: string; // Dialed before national numbers at home, e.g. "0"
+    nationalLength: { min: number; max: number }; // Digits after the dial code
+}
+
+/**
+ * Converts a phone number to its canonical E.164 form (e.g. "+972501234567").
+ * Numbers starting with "+" or "00" are treated as international and must carry
+ * the country's dial code. Anything else is a national number, with the
+ * country's trunk prefix (or its dial code, typed without the "+") dropped.
+ * Israeli numbers (+972) are checked against the domestic prefix rules; other
+ * countries by how many digits their numbers have, so a number from another
+ * country (e.g. 972501234567 with United States picked) is rejected.
+ * @param phone The number as typed by the user.
+ * @param country The selected country's dial code and number rules.
+ * @returns The E.164 number, or null if the number is invalid for that country.
+ */
+export function toE164PhoneNumber(
+    phone: string,
+    country: PhoneNumberRules
+): string | null {
+    if (!phone) {
+        return null;
+    }
+
+    const { dialCode, trunkPrefix, nationalLength } = country;
+    if (dialCode === ISRAEL_DIAL_CODE) {
+        if (!isValidIsraeliPhoneNumber(phone)) {
+            return null;
+        }
+        return `+${ISRAEL_DIAL_CODE}${toIsraeliDomesticDigits(phone).slice(1)}`;
+    }
+
+    // National significant numbers never start with 0
+    const fitsCountry = (national: string) =>
+        /^[1-9]\d*$/.test(national) &&
+        national.length >= nationalLength.min &&
+        national.length <= nationalLength.max;
+
+    const trimmed = phone.trim();
+    const digits = trimmed.replace(/\D/g, "");
+    let candidates: string[];
+    if (trimmed.startsWith("+") || digits.startsWith("00")) {
+        const international = trimmed.startsWith("+")
+            ? digits
+            : digits.slice(2);
+        if (!international.startsWith(dialCode)) {
+            return null;
+        }
+        candidates = [international.slice(dialCode.length)];
+    } else {
+        candidates = [
+            digits.startsWith(trunkPrefix) && digits.slice(trunkPrefix.length),
+            digits.startsWith(dialCode) && digits.slice(dialCode.length),
+            digits,
+        ].filter((candidate): candidate is string => Boolean(candidate));
+    }
+
+    const national = candidates.find(fitsCountry);
+    return national ? `+${dialCode}${national}` : null;
+}